@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+
+export interface BindingChanges {
+    // Files the generator wrote new content to: `created` and `updated` together
+    files: string[];
+    created: string[];
+    updated: string[];
+    deleted: string[];
+    unchanged: number;
+}
+
+/**
+ * Hashes every file below `dir`, keyed by its path relative to `dir` with forward slashes.
+ * A missing directory has no files.
+ */
+export async function snapshotFiles(dir: string): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+    const walk = async (current: string): Promise<void> => {
+        let entries;
+        try {
+            entries = await readdir(current, { withFileTypes: true });
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+            throw error;
+        }
+        for (const entry of entries) {
+            const path = join(current, entry.name);
+            if (entry.isDirectory()) {
+                await walk(path);
+            } else if (entry.isFile()) {
+                const hash = createHash("sha256").update(await readFile(path)).digest("hex");
+                hashes.set(relative(dir, path).split(sep).join("/"), hash);
+            }
+        }
+    };
+    await walk(dir);
+    return hashes;
+}
+
+export function diffFileSnapshots(before: Map<string, string>, after: Map<string, string>): BindingChanges {
+    const changes: BindingChanges = { files: [], created: [], updated: [], deleted: [], unchanged: 0 };
+    for (const [path, hash] of after) {
+        const previous = before.get(path);
+        if (previous === undefined) changes.created.push(path);
+        else if (previous !== hash) changes.updated.push(path);
+        else changes.unchanged++;
+    }
+    changes.deleted = [...before.keys()].filter((path) => !after.has(path));
+    changes.files = [...changes.created, ...changes.updated].sort();
+    changes.created.sort();
+    changes.updated.sort();
+    changes.deleted.sort();
+    return changes;
+}
@@ -0,0 +1,125 @@
+import { readFileSync, unwatchFile, watchFile } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parse } from "smol-toml";
+
+export interface CliConfig {
+    path: string;
+    token?: string;
+    defaultServer?: string;
+    // Server nickname to base URL, in the order the CLI lists them
+    servers: Record<string, string>;
+}
+
+interface CliServerConfig {
+    nickname?: unknown;
+    host?: unknown;
+    protocol?: unknown;
+}
+
+export function defaultCliConfigPath(env: NodeJS.ProcessEnv): string {
+    return env.SPACETIMEDB_CLI_CONFIG || join(homedir(), ".config", "spacetime", "cli.toml");
+}
+
+/**
+ * Reads the config written by `spacetime login`. Returns null when the file does not exist.
+ */
+export function readCliConfig(path: string): CliConfig | null {
+    let text: string;
+    try {
+        text = readFileSync(path, "utf8");
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return null;
+        }
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to read spacetime CLI config ${path}: ${message}`);
+    }
+
+    let raw: Record<string, unknown>;
+    try {
+        raw = parse(text);
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to parse spacetime CLI config ${path}: ${message}`);
+    }
+
+    const servers: Record<string, string> = {};
+    const serverConfigs = Array.isArray(raw.server_configs) ? (raw.server_configs as CliServerConfig[]) : [];
+    for (const server of serverConfigs) {
+        if (typeof server.host !== "string") continue;
+        const protocol = typeof server.protocol === "string" ? server.protocol : "https";
+        const nickname = typeof server.nickname === "string" ? server.nickname : server.host;
+        servers[nickname] = /^https?:\/\//.test(server.host) ? server.host : `${protocol}://${server.host}`;
+    }
+
+    return {
+        path,
+        token: typeof raw.spacetimedb_token === "string" ? raw.spacetimedb_token : undefined,
+        defaultServer: typeof raw.default_server === "string" ? raw.default_server : undefined,
+        servers,
+    };
+}
+
+/**
+ * Holds the CLI config and picks up the changes `spacetime login` and `spacetime server` make to the file.
+ * The token is read live; server changes are reported to the `watch` callback so profiles can be rebuilt.
+ */
+export class CliConfigSource {
+    readonly path: string;
+    private current: CliConfig;
+
+    constructor(config: CliConfig) {
+        this.path = config.path;
+        this.current = config;
+    }
+
+    get config(): CliConfig {
+        return this.current;
+    }
+
+    get token(): string {
+        return this.current.token ?? "";
+    }
+
+    /**
+     * Re-reads the file. A deleted file drops the token but keeps the servers; an unreadable one changes nothing.
+     */
+    reload(): { tokenChanged: boolean; serversChanged: boolean } {
+        let config: CliConfig | null;
+        try {
+            config = readCliConfig(this.path);
+        } catch (error: unknown) {
+            console.error(error instanceof Error ? error.message : error);
+            return { tokenChanged: false, serversChanged: false };
+        }
+
+        const next = config ?? { ...this.current, token: undefined };
+        const changes = {
+            tokenChanged: (next.token ?? "") !== this.token,
+            serversChanged: serverSettingsOf(next) !== serverSettingsOf(this.current),
+        };
+        this.current = next;
+        return changes;
+    }
+
+    watch(onServersChanged?: () => void, intervalMs: number = 2000): () => void {
+        // Polling survives the CLI replacing the file, which fs.watch does not
+        const listener = () => {
+            const { tokenChanged, serversChanged } = this.reload();
+            if (tokenChanged) {
+                console.error(`Reloaded SpacetimeDB token from ${this.path}`);
+            }
+            if (serversChanged) {
+                console.error(`Reloaded servers from ${this.path}`);
+                onServersChanged?.();
+            }
+        };
+        watchFile(this.path, { interval: intervalMs, persistent: false }, listener);
+        return () => unwatchFile(this.path, listener);
+    }
+}
+
+function serverSettingsOf(config: CliConfig): string {
+    return JSON.stringify([config.defaultServer ?? null, config.servers]);
+}
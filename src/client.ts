@@ -1,26 +1,37 @@
 import axios, { AxiosInstance } from "axios";
-import {
-    AlgebraicType,
-    AlgebraicTypeElement,
-    LogLine,
-    ParsedParam,
-    ParsedReducer,
-    ParsedTable,
-    RawSchema,
-    ToolResult,
-} from "./types.js";
+import { formatSchema, parseTables } from "./schema.js";
+import { decodeSqlResults } from "./sql-results.js";
+import { formatSchemaJson, formatSchemaJsonSchema, formatSchemaTypeScript, SchemaFormat } from "./schema-formats.js";
+import { LogLine, LogQueryOptions, RawSchema, ToolResult } from "./types.js";
+
+const LOG_LEVELS = ["trace", "debug", "info", "warn", "error", "panic"];
 
 export interface SpacetimeClientConfig {
     host: string;
     token: string;
+    // Called per request so a refreshed token is used without recreating the client
+    getToken?: () => string;
+    schemaCacheTtlMs?: number;
+    now?: () => number;
+}
+
+interface CachedSchema {
+    schema: RawSchema;
+    fetchedAt: number;
+    moduleHash: string | null;
 }
 
 export class SpacetimeClient {
     private client: AxiosInstance;
     private host: string;
+    private schemaCache = new Map<string, CachedSchema>();
+    private schemaCacheTtlMs: number;
+    private now: () => number;
 
     constructor(config: SpacetimeClientConfig) {
         this.host = config.host;
+        this.schemaCacheTtlMs = config.schemaCacheTtlMs ?? 60000;
+        this.now = config.now ?? Date.now;
         this.client = axios.create({
             baseURL: config.host,
             headers: {
@@ -29,6 +40,13 @@ export class SpacetimeClient {
             },
             validateStatus: () => true,
         });
+        const getToken = config.getToken;
+        if (getToken) {
+            this.client.interceptors.request.use((request) => {
+                request.headers.set("Authorization", `Bearer ${getToken()}`);
+                return request;
+            });
+        }
     }
 
     async testConnection(): Promise<ToolResult> {
@@ -44,7 +62,51 @@ export class SpacetimeClient {
         }
     }
 
-    async getSchema(database: string): Promise<ToolResult> {
+    async getSchema(database: string, format: SchemaFormat = "text", refresh: boolean = false): Promise<ToolResult> {
+        const result = await this.getRawSchema(database, refresh);
+        if (!result.success) {
+            return result;
+        }
+
+        const schema = result.data as RawSchema;
+        if (format !== "text" && (!schema?.tables || !schema?.reducers || !schema?.typespace)) {
+            return { success: false, error: "Invalid or empty schema" };
+        }
+
+        const formatters: Record<SchemaFormat, (schema: RawSchema) => string> = {
+            text: formatSchema,
+            json: formatSchemaJson,
+            typescript: formatSchemaTypeScript,
+            jsonschema: formatSchemaJsonSchema,
+        };
+
+        return {
+            success: true,
+            data: formatters[format](schema),
+        };
+    }
+
+    async getRawSchema(database: string, refresh: boolean = false): Promise<ToolResult> {
+        const cached = this.schemaCache.get(database);
+        let moduleHash: string | null | undefined;
+        if (cached && !refresh) {
+            if (this.now() - cached.fetchedAt < this.schemaCacheTtlMs) {
+                return { success: true, data: cached.schema };
+            }
+
+            // Past the TTL, an unchanged module hash means the cached schema is still current
+            moduleHash = await this.getModuleHash(database);
+            if (moduleHash && moduleHash === cached.moduleHash) {
+                cached.fetchedAt = this.now();
+                return { success: true, data: cached.schema };
+            }
+        }
+
+        // Read before the schema, so a publish in between shows up as a changed hash later
+        if (moduleHash === undefined && this.schemaCacheTtlMs > 0) {
+            moduleHash = await this.getModuleHash(database);
+        }
+
         try {
             const response = await this.client.get(`/v1/database/${database}/schema`, {
                 params: { version: 9 },
@@ -57,17 +119,45 @@ export class SpacetimeClient {
                 };
             }
 
-            return {
-                success: true,
-                data: this.formatSchema(response.data as RawSchema),
-            };
+            const schema = response.data as RawSchema;
+            if (this.schemaCacheTtlMs > 0) {
+                this.schemaCache.set(database, { schema, fetchedAt: this.now(), moduleHash: moduleHash ?? null });
+            }
+
+            return { success: true, data: schema };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : "Unknown error";
             return { success: false, error: `Failed to get schema: ${message}` };
         }
     }
 
-    async runSql(database: string, query: string): Promise<ToolResult> {
+    invalidateSchema(database?: string): void {
+        if (database === undefined) {
+            this.schemaCache.clear();
+        } else {
+            this.schemaCache.delete(database);
+        }
+    }
+
+    async getTables(database: string, refresh: boolean = false): Promise<ToolResult> {
+        const result = await this.getRawSchema(database, refresh);
+        if (!result.success) {
+            return result;
+        }
+
+        const schema = result.data as RawSchema;
+        if (!schema?.tables || !schema?.typespace) {
+            return { success: false, error: "Invalid or empty schema" };
+        }
+
+        return { success: true, data: parseTables(schema) };
+    }
+
+    /**
+     * Runs SQL and decodes the statement results into named rows. With `raw`, the response
+     * is returned as sent: positional rows of SATS-JSON values plus each statement's schema.
+     */
+    async runSql(database: string, query: string, raw: boolean = false): Promise<ToolResult> {
         try {
             const response = await this.client.post(
                 `/v1/database/${database}/sql`,
@@ -82,7 +172,7 @@ export class SpacetimeClient {
                 };
             }
 
-            return { success: true, data: response.data };
+            return { success: true, data: raw ? response.data : decodeSqlResults(response.data) };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : "Unknown error";
             return { success: false, error: `SQL query failed: ${message}` };
@@ -110,7 +200,30 @@ export class SpacetimeClient {
         }
     }
 
-    async getLogs(database: string, lineCount: number = 50): Promise<ToolResult> {
+    async getLogs(database: string, lineCount: number = 50, options: LogQueryOptions = {}): Promise<ToolResult> {
+        const result = await this.getLogLines(database, lineCount);
+        if (!result.success) {
+            return result;
+        }
+
+        const filtered = this.filterLogLines(result.data as LogLine[], options);
+        if (!filtered.success) {
+            return filtered;
+        }
+
+        const logLines = filtered.data as LogLine[];
+        if (options.format === "json") {
+            return { success: true, data: logLines };
+        }
+
+        if (logLines.length === 0) {
+            return { success: true, data: "No logs available" };
+        }
+
+        return { success: true, data: logLines.map((line) => this.formatLogLine(line)).join("\n") };
+    }
+
+    async getLogLines(database: string, lineCount: number = 50): Promise<ToolResult> {
         try {
             const response = await this.client.get(`/v1/database/${database}/logs`, {
                 params: { num_lines: lineCount },
@@ -127,26 +240,62 @@ export class SpacetimeClient {
                 };
             }
 
-            const logLines = this.parseLogData(response.data);
-
-            if (logLines.length === 0) {
-                return { success: true, data: "No logs available" };
-            }
-
-            const formatted = logLines
-                .map(
-                    (line) =>
-                        `[${line.ts.toISOString()}] ${line.level.toUpperCase().padEnd(5)} ${line.target} - ${line.message}`
-                )
-                .join("\n");
-
-            return { success: true, data: formatted };
+            return { success: true, data: this.parseLogData(response.data) };
         } catch (error: unknown) {
             const message = error instanceof Error ? error.message : "Unknown error";
             return { success: false, error: `Failed to fetch logs: ${message}` };
         }
     }
 
+    async tailLogs(database: string, cursor?: string, lineCount: number = 100): Promise<ToolResult> {
+        const previous = cursor ? this.parseLogCursor(cursor) : null;
+        if (cursor && !previous) {
+            return { success: false, error: `Invalid cursor "${cursor}"` };
+        }
+
+        const result = await this.getLogLines(database, lineCount);
+        if (!result.success) {
+            return result;
+        }
+
+        const logLines = result.data as LogLine[];
+        let newLines = logLines;
+        let truncated = false;
+
+        if (previous) {
+            // Lines sharing the cursor's timestamp are skipped up to the number already returned
+            let seenAtCursor = 0;
+            newLines = logLines.filter((line) => {
+                const time = line.ts.getTime();
+                if (time < previous.time) return false;
+                if (time === previous.time) {
+                    seenAtCursor++;
+                    return seenAtCursor > previous.seen;
+                }
+                return true;
+            });
+            truncated = logLines.length >= lineCount && logLines[0].ts.getTime() > previous.time;
+        }
+
+        // An empty log starts the cursor now, so lines written before the next call are not replayed
+        let nextCursor = cursor ?? `${this.now()}:0`;
+        if (newLines.length > 0) {
+            const lastTime = newLines[newLines.length - 1].ts.getTime();
+            const seen = logLines.filter((line) => line.ts.getTime() === lastTime).length;
+            nextCursor = `${lastTime}:${seen}`;
+        }
+
+        return {
+            success: true,
+            data: {
+                cursor: nextCursor,
+                count: newLines.length,
+                truncated,
+                logs: newLines.map((line) => this.formatLogLine(line)).join("\n"),
+            },
+        };
+    }
+
     async describeDatabase(database: string): Promise<ToolResult> {
         try {
             const response = await this.client.get(`/v1/database/${database}`);
@@ -259,6 +408,62 @@ export class SpacetimeClient {
         }
     }
 
+    // The database record's initial_program keeps the hash of the first publish, so the hash of the
+    // running module is read from st_module, which every update rewrites
+    private async getModuleHash(database: string): Promise<string | null> {
+        const result = await this.runSql(database, "SELECT program_hash FROM st_module", true);
+        const rows = (result.data as { rows?: unknown }[] | undefined)?.[0]?.rows;
+        return result.success && Array.isArray(rows) && rows.length > 0 ? JSON.stringify(rows) : null;
+    }
+
+    private filterLogLines(logLines: LogLine[], options: LogQueryOptions): ToolResult {
+        let minLevel = -1;
+        if (options.level) {
+            minLevel = LOG_LEVELS.indexOf(options.level.toLowerCase());
+            if (minLevel === -1) {
+                return { success: false, error: `Unknown log level "${options.level}". Use one of: ${LOG_LEVELS.join(", ")}` };
+            }
+        }
+
+        const since = options.since ? new Date(options.since) : null;
+        const until = options.until ? new Date(options.until) : null;
+        if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+            return { success: false, error: "Invalid since/until timestamp" };
+        }
+
+        let pattern: RegExp | null = null;
+        if (options.pattern) {
+            try {
+                pattern = new RegExp(options.pattern);
+            } catch (error: unknown) {
+                const message = error instanceof Error ? error.message : "Unknown error";
+                return { success: false, error: `Invalid message pattern: ${message}` };
+            }
+        }
+
+        const filtered = logLines.filter((line) => {
+            if (minLevel !== -1 && LOG_LEVELS.indexOf(line.level) < minLevel) return false;
+            if (options.target && !line.target.startsWith(options.target)) return false;
+            if (options.filename && !line.filename.includes(options.filename)) return false;
+            if (since && line.ts < since) return false;
+            if (until && line.ts > until) return false;
+            if (pattern && !pattern.test(line.message)) return false;
+            return true;
+        });
+
+        return { success: true, data: filtered };
+    }
+
+    private parseLogCursor(cursor: string): { time: number; seen: number } | null {
+        const match = /^(\d+):(\d+)$/.exec(cursor);
+        if (!match) return null;
+        return { time: Number(match[1]), seen: Number(match[2]) };
+    }
+
+    private formatLogLine(line: LogLine): string {
+        return `[${line.ts.toISOString()}] ${line.level.toUpperCase().padEnd(5)} ${line.target} - ${line.message}`;
+    }
+
     private parseLogData(data: unknown): LogLine[] {
         const logLines: LogLine[] = [];
 
@@ -293,158 +498,4 @@ export class SpacetimeClient {
 
         return logLines;
     }
-
-    private formatSchema(schema: RawSchema): string {
-        if (!schema?.tables || !schema?.reducers || !schema?.typespace) {
-            return "Invalid or empty schema";
-        }
-
-        try {
-            const tables = this.parseTables(schema);
-            const reducers = this.parseReducers(schema);
-
-            let output = `Database Schema\n${"=".repeat(50)}\n\n`;
-
-            // Tables section
-            output += `TABLES (${tables.length}):\n`;
-            if (tables.length === 0) {
-                output += "  (none)\n";
-            } else {
-                for (const table of tables) {
-                    output += `\n• ${table.name}\n`;
-                    for (const col of table.columns) {
-                        output += `    ${col.name}: ${col.fullType}\n`;
-                    }
-                }
-            }
-
-            output += `\n`;
-
-            // Reducers section
-            output += `REDUCERS (${reducers.length}):\n`;
-            if (reducers.length === 0) {
-                output += "  (none)\n";
-            } else {
-                for (const reducer of reducers) {
-                    const lifecycleTag = reducer.lifecycle ? ` [${reducer.lifecycle}]` : "";
-                    output += `\n• ${reducer.name}${lifecycleTag}\n`;
-                    if (reducer.params.length > 0) {
-                        for (const param of reducer.params) {
-                            output += `    ${param.name}: ${param.fullType}\n`;
-                        }
-                    } else {
-                        output += `    (no parameters)\n`;
-                    }
-                }
-            }
-
-            return output;
-        } catch (error: unknown) {
-            const message = error instanceof Error ? error.message : "Unknown error";
-            return `Error formatting schema: ${message}\n\nRaw: ${JSON.stringify(schema, null, 2)}`;
-        }
-    }
-
-    private parseTables(schema: RawSchema): ParsedTable[] {
-        const tables: ParsedTable[] = [];
-
-        for (const table of schema.tables) {
-            const typeDef = schema.types[table.product_type_ref];
-            if (!typeDef) continue;
-
-            const typeData = schema.typespace.types[typeDef.ty];
-            if (!typeData?.Product) continue;
-
-            const columns: ParsedParam[] = typeData.Product.elements.map((elem) =>
-                this.parseAlgebraicType(schema, elem)
-            );
-
-            tables.push({ name: table.name, columns });
-        }
-
-        return tables;
-    }
-
-    private parseReducers(schema: RawSchema): ParsedReducer[] {
-        return schema.reducers.map((reducer) => {
-            let lifecycle: ParsedReducer["lifecycle"] = null;
-            if (reducer.lifecycle.some) {
-                const keys = Object.keys(reducer.lifecycle.some);
-                if (keys.length > 0) {
-                    lifecycle = keys[0] as ParsedReducer["lifecycle"];
-                }
-            }
-
-            const params = reducer.params.elements.map((elem) =>
-                this.parseAlgebraicType(schema, elem)
-            );
-
-            return { name: reducer.name, params, lifecycle };
-        });
-    }
-
-    private parseAlgebraicType(schema: RawSchema, element: AlgebraicTypeElement): ParsedParam {
-        const name = element.name.some ?? "(unnamed)";
-        const fullType = this.resolveType(schema, element.algebraic_type);
-
-        return {
-            name,
-            type: fullType.split("<")[0],
-            fullType,
-        };
-    }
-
-    private resolveType(schema: RawSchema, algebraicType: AlgebraicType): string {
-        const entries = Object.entries(algebraicType);
-        if (entries.length === 0) return "Unknown";
-
-        const [typeKey, typeValue] = entries[0];
-
-        // Primitive types
-        const primitives: string[] = [
-            "I8", "U8", "I16", "U16", "I32", "U32", "F32",
-            "I64", "U64", "F64", "I128", "U128", "U256", "Bool", "String",
-        ];
-        if (primitives.includes(typeKey)) {
-            return typeKey;
-        }
-
-        // Array type
-        if (typeKey === "Array") {
-            const innerType = this.resolveType(schema, typeValue as AlgebraicType);
-            return `Array<${innerType}>`;
-        }
-
-        // Ref type
-        if (typeKey === "Ref") {
-            const refIndex = typeValue as number;
-            const refTypeDef = schema.types[refIndex];
-            return refTypeDef?.name?.name ?? `Ref(${refIndex})`;
-        }
-
-        // Product type (struct)
-        if (typeKey === "Product") {
-            const product = typeValue as { elements: AlgebraicTypeElement[] };
-            if (
-                product.elements.length === 1 &&
-                product.elements[0].name.some === "__identity__"
-            ) {
-                return "Identity";
-            }
-            return "Product";
-        }
-
-        // Sum type (enum)
-        if (typeKey === "Sum") {
-            return "Enum";
-        }
-
-        // Option type
-        if (typeKey === "Option") {
-            const innerType = this.resolveType(schema, typeValue as AlgebraicType);
-            return `Option<${innerType}>`;
-        }
-
-        return typeKey;
-    }
 }
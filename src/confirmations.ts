@@ -0,0 +1,50 @@
+import { randomBytes } from "node:crypto";
+
+export interface ConfirmationStoreConfig {
+    ttlMs?: number;
+    now?: () => number;
+}
+
+/**
+ * Short-lived, single-use tokens that bind a destructive operation to the preview shown for it.
+ */
+export class ConfirmationStore {
+    private pending = new Map<string, { key: string; expiresAt: number }>();
+    private ttlMs: number;
+    private now: () => number;
+
+    constructor(config: ConfirmationStoreConfig = {}) {
+        this.ttlMs = config.ttlMs ?? 5 * 60 * 1000;
+        this.now = config.now ?? Date.now;
+    }
+
+    get ttlSeconds(): number {
+        return Math.round(this.ttlMs / 1000);
+    }
+
+    issue(key: string): string {
+        this.prune();
+        const token = randomBytes(8).toString("hex");
+        this.pending.set(token, { key, expiresAt: this.now() + this.ttlMs });
+        return token;
+    }
+
+    consume(token: string, key: string): boolean {
+        this.prune();
+        const entry = this.pending.get(token);
+        if (!entry || entry.key !== key) {
+            return false;
+        }
+        this.pending.delete(token);
+        return true;
+    }
+
+    private prune(): void {
+        const now = this.now();
+        for (const [token, entry] of this.pending) {
+            if (entry.expiresAt <= now) {
+                this.pending.delete(token);
+            }
+        }
+    }
+}
@@ -0,0 +1,162 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { ParsedTable, RawSchema } from "./types.js";
+
+// Bumped whenever the layout of a snapshot directory changes
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotManifest {
+    format_version: number;
+    database: string;
+    host: string;
+    exported_at: string;
+    tables: { name: string; file: string; rows: number }[];
+    // Tables that were left out of the export; missing in snapshots written before it was added
+    skipped_tables?: { name: string; reason: string }[];
+}
+
+// Rows are kept as SATS-JSON in column order so they can be sent back unchanged
+export interface TableSnapshot {
+    table: string;
+    columns: string[];
+    rows: unknown[][];
+}
+
+export interface DatabaseSnapshot {
+    path: string;
+    manifest: SnapshotManifest;
+    schema: RawSchema;
+    tables: TableSnapshot[];
+}
+
+// Column types that can be written as SQL literals in an INSERT
+const SQL_LITERAL_TYPES = new Set([
+    "Bool", "I8", "U8", "I16", "U16", "I32", "U32", "I64", "U64", "I128", "U128", "I256", "U256", "F32", "F64",
+    "String", "Identity", "ConnectionId",
+]);
+
+/**
+ * Writes a snapshot into a new directory below `outDir` named after the database and export time:
+ * `manifest.json`, `schema.json` and one `tables/<table>.json` file per table.
+ */
+export async function writeDatabaseSnapshot(
+    outDir: string,
+    info: { database: string; host: string; exportedAt: Date; skippedTables?: { name: string; reason: string }[] },
+    schema: RawSchema,
+    tables: TableSnapshot[]
+): Promise<DatabaseSnapshot> {
+    const stamp = info.exportedAt.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+    const path = resolve(outDir, `${info.database}-${stamp}`);
+    await mkdir(join(path, "tables"), { recursive: true });
+
+    const manifest: SnapshotManifest = {
+        format_version: SNAPSHOT_FORMAT_VERSION,
+        database: info.database,
+        host: info.host,
+        exported_at: info.exportedAt.toISOString(),
+        tables: tables.map((table) => ({ name: table.table, file: `tables/${table.table}.json`, rows: table.rows.length })),
+        skipped_tables: info.skippedTables ?? [],
+    };
+    for (const table of tables) {
+        await writeFile(join(path, "tables", `${table.table}.json`), `${JSON.stringify(table)}\n`, "utf8");
+    }
+    await writeFile(join(path, "schema.json"), `${JSON.stringify(schema, null, 2)}\n`, "utf8");
+    // Written last so a directory without a manifest is recognizably incomplete
+    await writeFile(join(path, "manifest.json"), `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+
+    return { path, manifest, schema, tables };
+}
+
+export async function readDatabaseSnapshot(path: string): Promise<DatabaseSnapshot> {
+    const absolutePath = resolve(path);
+    const readJson = async <T>(file: string): Promise<T> => {
+        // File names come from the manifest and must not lead out of the snapshot directory
+        const inside = relative(absolutePath, resolve(absolutePath, file));
+        if (inside === "" || inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+            throw new Error(`Snapshot file ${file} is outside of ${absolutePath}`);
+        }
+        return JSON.parse(await readFile(join(absolutePath, inside), "utf8")) as T;
+    };
+
+    let manifest: SnapshotManifest;
+    try {
+        manifest = await readJson<SnapshotManifest>("manifest.json");
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            throw new Error(`${absolutePath} is not a database snapshot (manifest.json is missing)`);
+        }
+        throw error;
+    }
+    if (manifest.format_version !== SNAPSHOT_FORMAT_VERSION) {
+        throw new Error(`Unsupported snapshot format version ${manifest.format_version}; expected ${SNAPSHOT_FORMAT_VERSION}`);
+    }
+
+    const schema = await readJson<RawSchema>("schema.json");
+    const tables = await Promise.all(manifest.tables.map((table) => readJson<TableSnapshot>(table.file)));
+    return { path: absolutePath, manifest, schema, tables };
+}
+
+/**
+ * Puts the positional or named rows of a raw `/sql` statement result into column order.
+ */
+export function rowsInColumnOrder(columns: string[], rows: unknown[]): unknown[][] {
+    return rows.map((row) => (Array.isArray(row) ? row : columns.map((column) => (row as Record<string, unknown>)?.[column])));
+}
+
+/**
+ * Returns the columns whose types cannot be written as SQL literals, which means the table
+ * can only be restored through a reducer.
+ */
+export function columnsWithoutSqlLiterals(table: ParsedTable): string[] {
+    return table.columns.filter((column) => !SQL_LITERAL_TYPES.has(column.type)).map((column) => `${column.name}: ${column.fullType}`);
+}
+
+/**
+ * Returns the columns that hold integers beyond `Number.MAX_SAFE_INTEGER`. Rows are parsed as plain
+ * JSON, so such values were already rounded and a snapshot of them would restore different numbers.
+ * Float columns are skipped since large floats are stored exactly.
+ */
+export function columnsWithUnsafeIntegers(table: ParsedTable, columns: string[], rows: unknown[][]): string[] {
+    return columns.flatMap((name, i) => {
+        const column = table.columns.find((candidate) => candidate.name === name);
+        if (column?.type === "F32" || column?.type === "F64") return [];
+        return rows.some((row) => hasUnsafeInteger(row[i])) ? [`${name}: ${column?.fullType ?? "unknown"}`] : [];
+    });
+}
+
+export function sqlInsertStatement(table: ParsedTable, columns: string[], row: unknown[]): string {
+    const values = columns.map((name, i) => {
+        const column = table.columns.find((candidate) => candidate.name === name);
+        return sqlLiteral(column?.type ?? "", row[i]);
+    });
+    return `INSERT INTO ${table.name} (${columns.join(", ")}) VALUES (${values.join(", ")})`;
+}
+
+export function isConflictError(message: string): boolean {
+    return /unique|duplicate|already exists|conflict/i.test(message);
+}
+
+function hasUnsafeInteger(value: unknown): boolean {
+    if (typeof value === "number") {
+        return Number.isInteger(value) && !Number.isSafeInteger(value);
+    }
+    if (value && typeof value === "object") {
+        return Object.values(value).some(hasUnsafeInteger);
+    }
+    return false;
+}
+
+function sqlLiteral(type: string, value: unknown): string {
+    if (type === "Identity" || type === "ConnectionId") {
+        // Special types arrive wrapped: `["<hex>"]` or `{ "__identity__": "<hex>" }`
+        const inner = Array.isArray(value) ? value[0] : value && typeof value === "object" ? Object.values(value)[0] : value;
+        return `0x${String(inner).replace(/^0x/i, "")}`;
+    }
+    if (type === "Bool") {
+        return value ? "TRUE" : "FALSE";
+    }
+    if (type === "String") {
+        return `'${String(value).replace(/'/g, "''")}'`;
+    }
+    return String(value);
+}
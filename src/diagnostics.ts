@@ -0,0 +1,92 @@
+export interface Diagnostic {
+    severity: "error" | "warning";
+    message: string;
+    file?: string;
+    line?: number;
+    column?: number;
+    code?: string;
+}
+
+// Summary lines that repeat what the individual diagnostics already say
+const NOISE = [/^error: aborting due to/, /^error: could not compile/, /^warning: .* generated \d+ warnings?/, /^warning: build failed/];
+
+// `file(line,col): error CODE: message [project]` from MSBuild/dotnet and `tsc --pretty false`
+const PAREN_LOCATION = /^\s*(.+?)\((\d+),(\d+)\): (error|warning) (\w+): (.+?)(?: \[[^\]]+\])?$/;
+// `file:line:col - error TS1234: message` from tsc with pretty output
+const TSC_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.+)$/;
+
+/**
+ * Extracts compiler and CLI errors from command output: rustc/cargo diagnostics with their
+ * `-->` location line, dotnet and tsc diagnostics, and `Error:` messages from the spacetime CLI
+ * including their causes. Diagnostics repeated in a build summary are reported once.
+ */
+export function parseDiagnostics(output: string): Diagnostic[] {
+    const lines = stripAnsi(output).split(/\r?\n/);
+    const diagnostics: Diagnostic[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (NOISE.some((pattern) => pattern.test(line))) continue;
+
+        const located = PAREN_LOCATION.exec(line) ?? TSC_PRETTY.exec(line);
+        if (located) {
+            diagnostics.push({
+                severity: located[4] as Diagnostic["severity"],
+                message: located[6],
+                file: located[1],
+                line: Number(located[2]),
+                column: Number(located[3]),
+                code: located[5],
+            });
+            continue;
+        }
+
+        const rust = /^(error|warning)(?:\[(\w+)\])?: (.+)$/.exec(line);
+        if (rust) {
+            const diagnostic: Diagnostic = { severity: rust[1] as Diagnostic["severity"], message: rust[3], ...(rust[2] ? { code: rust[2] } : {}) };
+            const location = /^\s*--> (.+?):(\d+):(\d+)$/.exec(lines[i + 1] ?? "");
+            if (location) {
+                diagnostic.file = location[1];
+                diagnostic.line = Number(location[2]);
+                diagnostic.column = Number(location[3]);
+                i++;
+            }
+            diagnostics.push(diagnostic);
+            continue;
+        }
+
+        const cli = /^Error: (.+)$/.exec(line);
+        if (cli) {
+            const causes: string[] = [];
+            let j = i + 1;
+            while (j < lines.length && (lines[j].trim() === "" || /^Caused by:/.test(lines[j]) || /^\s+\S/.test(lines[j]))) {
+                const cause = lines[j].trim().replace(/^\d+: /, "");
+                if (cause && cause !== "Caused by:") causes.push(cause);
+                j++;
+            }
+            diagnostics.push({ severity: "error", message: [cli[1], ...causes].join(": ") });
+            i = j - 1;
+        }
+    }
+
+    const seen = new Set<string>();
+    return diagnostics.filter((diagnostic) => {
+        const key = JSON.stringify(diagnostic);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+    return diagnostics
+        .map((diagnostic) => {
+            const location = diagnostic.file ? `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: ` : "";
+            return `- ${location}${diagnostic.severity}${diagnostic.code ? `[${diagnostic.code}]` : ""}: ${diagnostic.message}`;
+        })
+        .join("\n");
+}
+
+function stripAnsi(text: string): string {
+    return text.replace(/\x1b\[[0-9;]*m/g, "");
+}
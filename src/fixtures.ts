@@ -0,0 +1,149 @@
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { reducerParamName } from "./schema-formats.js";
+import { RawReducer } from "./types.js";
+
+export type ReducerArgs = unknown[] | Record<string, unknown>;
+
+/**
+ * One fixture step: a reducer call, one reducer call per row of `rows`, or a SQL query
+ * whose first row can be saved into variables for later steps.
+ */
+export interface FixtureStep {
+    name?: string;
+    reducer?: string;
+    args?: ReducerArgs;
+    table?: string;
+    rows?: ReducerArgs[];
+    query?: string;
+    // Variable name -> column of the query's first row
+    save?: Record<string, string>;
+}
+
+export interface Fixture {
+    variables: Record<string, unknown>;
+    steps: FixtureStep[];
+}
+
+const VARIABLE_PATTERN = /\$\{(\w+)\}/g;
+
+/**
+ * Reads a fixture from JSON or, for `.yaml`/`.yml` files, YAML. Either form is
+ * `{ variables?, steps }` or just the list of steps.
+ */
+export async function loadFixture(path: string): Promise<Fixture> {
+    const text = await readFile(path, "utf8");
+    const extension = extname(path).toLowerCase();
+    const parsed: unknown = extension === ".yaml" || extension === ".yml" ? parseYaml(text) : JSON.parse(text);
+
+    const document: Partial<Fixture> | null = Array.isArray(parsed) ? { steps: parsed } : (parsed as Partial<Fixture> | null);
+    if (!document || !Array.isArray(document.steps)) {
+        throw new Error("Fixture needs a steps list");
+    }
+    if (document.variables !== undefined && !isPlainObject(document.variables)) {
+        throw new Error("Fixture variables must be an object");
+    }
+
+    const problems = document.steps.flatMap((step, i) => stepProblems(step).map((problem) => `steps[${i}]: ${problem}`));
+    if (problems.length > 0) {
+        throw new Error(problems.join("; "));
+    }
+    return { variables: document.variables ?? {}, steps: document.steps as FixtureStep[] };
+}
+
+export function describeStep(step: FixtureStep): string {
+    if (step.name) return step.name;
+    if (step.query) return step.query;
+    return step.rows ? `${step.reducer} (${step.rows.length} row(s)${step.table ? ` of ${step.table}` : ""})` : (step.reducer as string);
+}
+
+/**
+ * Replaces `${name}` references in strings, arrays and objects. A string that is a single reference
+ * takes the variable's value as is, so numbers and objects keep their type.
+ */
+export function substituteVariables(value: unknown, variables: Record<string, unknown>): unknown {
+    if (typeof value === "string") {
+        const whole = /^\$\{(\w+)\}$/.exec(value);
+        if (whole) {
+            return lookup(whole[1], variables);
+        }
+        return value.replace(VARIABLE_PATTERN, (_, name: string) => {
+            const resolved = lookup(name, variables);
+            return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved);
+        });
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => substituteVariables(item, variables));
+    }
+    if (isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteVariables(item, variables)]));
+    }
+    return value;
+}
+
+/**
+ * Replaces `${name}` references in a SQL query with the variables as SQL literals: strings are quoted
+ * with embedded quotes doubled, numbers and booleans are written bare.
+ */
+export function substituteSqlVariables(query: string, variables: Record<string, unknown>): string {
+    return query.replace(VARIABLE_PATTERN, (_, name: string) => {
+        const value = lookup(name, variables);
+        if (typeof value === "string") {
+            return `'${value.replace(/'/g, "''")}'`;
+        }
+        if (typeof value === "number" || typeof value === "bigint" || typeof value === "boolean") {
+            return String(value);
+        }
+        throw new Error(`Variable \${${name}} cannot be used in SQL; only strings, numbers and booleans can`);
+    });
+}
+
+/**
+ * Puts arguments given by parameter name into the reducer's positional order.
+ */
+export function positionalArgs(reducer: RawReducer, args: ReducerArgs): unknown[] {
+    if (Array.isArray(args)) {
+        return args;
+    }
+    const names = reducer.params.elements.map((element, i) => reducerParamName(element, i));
+    const unknown = Object.keys(args).filter((key) => !names.includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown argument(s) for ${reducer.name}: ${unknown.join(", ")}. Parameters: ${names.join(", ")}`);
+    }
+    return names.map((name) => args[name]);
+}
+
+function stepProblems(step: unknown): string[] {
+    if (!isPlainObject(step)) {
+        return ["expected an object"];
+    }
+    const problems: string[] = [];
+    if ((typeof step.reducer === "string") === (typeof step.query === "string")) {
+        problems.push("needs either reducer or query");
+    }
+    if (step.rows !== undefined && (!Array.isArray(step.rows) || typeof step.reducer !== "string")) {
+        problems.push("rows must be a list and needs a reducer");
+    }
+    if (step.rows !== undefined && step.args !== undefined) {
+        problems.push("use either args or rows");
+    }
+    if (step.args !== undefined && !Array.isArray(step.args) && !isPlainObject(step.args)) {
+        problems.push("args must be a list or an object");
+    }
+    if (step.save !== undefined && (typeof step.query !== "string" || !isPlainObject(step.save))) {
+        problems.push("save must be an object and needs a query");
+    }
+    return problems;
+}
+
+function lookup(name: string, variables: Record<string, unknown>): unknown {
+    if (!Object.hasOwn(variables, name)) {
+        throw new Error(`Undefined variable \${${name}}`);
+    }
+    return variables[name];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
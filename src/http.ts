@@ -0,0 +1,211 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createNodeServer, IncomingMessage, Server as NodeServer, ServerResponse } from "node:http";
+
+export interface HttpServerConfig {
+    // Builds the MCP server for a new session; each session needs its own instance
+    createMcpServer: () => Server;
+    bindAddress?: string;
+    port?: number;
+    // Required as `Authorization: Bearer <key>` or `X-API-Key: <key>` when set
+    apiKey?: string;
+    path?: string;
+    maxBodyBytes?: number;
+    // Host header names accepted, guarding against DNS rebinding; defaults to localhost names for loopback binds
+    allowedHosts?: string[];
+    // Sessions without requests or open streams for this long are closed
+    sessionIdleMs?: number;
+    // Initialize requests beyond this many open sessions are refused
+    maxSessions?: number;
+}
+
+interface Session {
+    transport: StreamableHTTPServerTransport;
+    server: Server;
+    idleTimer: NodeJS.Timeout;
+    // Requests still being answered, including GET streams held open for notifications
+    openRequests: number;
+}
+
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "localhost"]);
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * Serves MCP over Streamable HTTP. Sessions start with an initialize request and are
+ * addressed by the `mcp-session-id` header afterwards.
+ */
+export async function startHttpServer(config: HttpServerConfig): Promise<NodeServer> {
+    const path = config.path ?? "/mcp";
+    const maxBodyBytes = config.maxBodyBytes ?? 4 * 1024 * 1024;
+    const bindAddress = config.bindAddress ?? "127.0.0.1";
+    const allowedHosts = config.allowedHosts ?? (LOOPBACK_ADDRESSES.has(bindAddress) ? LOOPBACK_HOSTS : undefined);
+    const sessionIdleMs = config.sessionIdleMs ?? 30 * 60 * 1000;
+    const maxSessions = config.maxSessions ?? 100;
+    const sessions = new Map<string, Session>();
+
+    const expireSession = (id: string) => {
+        const session = sessions.get(id);
+        if (session && session.openRequests > 0) {
+            session.idleTimer.refresh();
+            return;
+        }
+        closeSession(id);
+    };
+
+    const closeSession = (id: string) => {
+        const session = sessions.get(id);
+        if (!session) return;
+        sessions.delete(id);
+        clearTimeout(session.idleTimer);
+        session.server.close().catch((error: unknown) => console.error("Failed to close MCP session:", error));
+    };
+
+    const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (url.pathname !== path) {
+            sendJsonRpcError(res, 404, "Not found");
+            return;
+        }
+
+        if (allowedHosts && !isAllowedHost(req, allowedHosts)) {
+            sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host ?? ""}`);
+            return;
+        }
+
+        if (config.apiKey && !isAuthorized(req, config.apiKey)) {
+            res.setHeader("WWW-Authenticate", "Bearer");
+            sendJsonRpcError(res, 401, "Unauthorized");
+            return;
+        }
+
+        let body: unknown;
+        if (req.method === "POST") {
+            try {
+                body = await readJsonBody(req, maxBodyBytes);
+            } catch (error: unknown) {
+                sendJsonRpcError(res, 400, error instanceof Error ? error.message : "Invalid request body", -32700);
+                return;
+            }
+        }
+
+        const sessionId = req.headers["mcp-session-id"];
+        if (typeof sessionId === "string") {
+            const session = sessions.get(sessionId);
+            if (!session) {
+                sendJsonRpcError(res, 404, "Session not found");
+                return;
+            }
+            session.openRequests++;
+            session.idleTimer.refresh();
+            res.on("close", () => {
+                session.openRequests--;
+                session.idleTimer.refresh();
+            });
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== "POST" || !isInitializeRequest(body)) {
+            sendJsonRpcError(res, 400, "No valid session ID provided");
+            return;
+        }
+        if (sessions.size >= maxSessions) {
+            sendJsonRpcError(res, 503, `Too many open sessions (limit ${maxSessions})`);
+            return;
+        }
+
+        const server = config.createMcpServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+                const idleTimer = setTimeout(() => expireSession(id), sessionIdleMs);
+                idleTimer.unref();
+                sessions.set(id, { transport, server, idleTimer, openRequests: 0 });
+            },
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+                sessions.delete(transport.sessionId);
+            }
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    };
+
+    const httpServer = createNodeServer((req, res) => {
+        handleRequest(req, res).catch((error: unknown) => {
+            console.error("Failed to handle MCP HTTP request:", error);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, "Internal server error", -32603);
+            }
+        });
+    });
+
+    httpServer.on("close", () => {
+        for (const id of [...sessions.keys()]) {
+            closeSession(id);
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(config.port ?? 3333, bindAddress, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+
+    return httpServer;
+}
+
+function isAllowedHost(req: IncomingMessage, allowedHosts: string[]): boolean {
+    let hostname: string;
+    try {
+        hostname = new URL(`http://${req.headers.host ?? ""}`).hostname;
+    } catch {
+        return false;
+    }
+    return allowedHosts.includes(hostname);
+}
+
+function isAuthorized(req: IncomingMessage, apiKey: string): boolean {
+    const authorization = req.headers.authorization;
+    const apiKeyHeader = req.headers["x-api-key"];
+    const provided = authorization?.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length)
+        : typeof apiKeyHeader === "string" ? apiKeyHeader : "";
+
+    const expected = Buffer.from(apiKey);
+    const actual = Buffer.from(provided);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > maxBytes) {
+            throw new Error(`Request body exceeds ${maxBytes} bytes`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString("utf8");
+    if (!text) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error("Request body is not valid JSON");
+    }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -1,23 +1,77 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import dotenv from "dotenv";
+import { parseArgs } from "node:util";
+import { startHttpServer } from "./http.js";
+import { loadPolicyConfig } from "./policy.js";
+import { loadServerProfiles, ServerProfiles } from "./profiles.js";
 import { createServer } from "./server.js";
 
 dotenv.config();
 
-const HOST = process.env.SPACETIMEDB_HOST || "http://localhost:3000";
-const TOKEN = process.env.SPACETIMEDB_TOKEN || "";
-const DEFAULT_DATABASE = process.env.SPACETIMEDB_DEFAULT_DATABASE || "";
+const SCHEMA_CACHE_TTL_MS = process.env.SPACETIMEDB_SCHEMA_CACHE_TTL_MS
+    ? Number(process.env.SPACETIMEDB_SCHEMA_CACHE_TTL_MS)
+    : undefined;
+const REDUCER_TOOLS = ["1", "true", "yes"].includes((process.env.SPACETIMEDB_REDUCER_TOOLS || "").toLowerCase());
+const EXPORT_DIR = process.env.SPACETIMEDB_EXPORT_DIR || undefined;
+
+const { values: args } = parseArgs({
+    options: {
+        http: { type: "boolean", default: false },
+        bind: { type: "string" },
+        port: { type: "string" },
+    },
+});
 
 async function run() {
-    const server = createServer({
-        host: HOST,
-        token: TOKEN,
-        defaultDatabase: DEFAULT_DATABASE,
+    let profiles = loadServerProfiles(process.env);
+    const { cliConfigSource } = profiles;
+    const profileListeners = new Set<(profiles: ServerProfiles) => void>();
+    cliConfigSource?.watch(() => {
+        try {
+            profiles = loadServerProfiles(process.env, cliConfigSource);
+        } catch (error: unknown) {
+            console.error(`Keeping the previous servers: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        profileListeners.forEach((listener) => listener(profiles));
     });
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("SpacetimeDB MCP Server running on stdio");
+    const policy = loadPolicyConfig(process.env);
+    const createMcpServer = () =>
+        createServer({
+            ...profiles.servers[profiles.defaultServer],
+            serverName: profiles.defaultServer,
+            servers: profiles.servers,
+            watchServers: (listener) => {
+                profileListeners.add(listener);
+                return () => profileListeners.delete(listener);
+            },
+            policy,
+            reducerTools: REDUCER_TOOLS,
+            exportDir: EXPORT_DIR,
+            schemaCacheTtlMs: SCHEMA_CACHE_TTL_MS,
+        });
+
+    if (args.http) {
+        const bindAddress = args.bind || process.env.SPACETIMEDB_MCP_HTTP_BIND || "127.0.0.1";
+        const port = Number(args.port || process.env.SPACETIMEDB_MCP_HTTP_PORT || 3333);
+        const apiKey = process.env.SPACETIMEDB_MCP_API_KEY || undefined;
+        const allowedHosts = process.env.SPACETIMEDB_MCP_ALLOWED_HOSTS
+            ? process.env.SPACETIMEDB_MCP_ALLOWED_HOSTS.split(",").map((host) => host.trim()).filter(Boolean)
+            : undefined;
+        const maxSessions = process.env.SPACETIMEDB_MCP_MAX_SESSIONS ? Number(process.env.SPACETIMEDB_MCP_MAX_SESSIONS) : undefined;
+        await startHttpServer({ createMcpServer, bindAddress, port, apiKey, allowedHosts, maxSessions });
+        console.error(`SpacetimeDB MCP Server listening on http://${bindAddress}:${port}/mcp`);
+        if (!apiKey) {
+            console.error("Warning: SPACETIMEDB_MCP_API_KEY is not set; HTTP requests are not authenticated");
+        }
+    } else {
+        const transport = new StdioServerTransport();
+        await createMcpServer().connect(transport);
+        console.error("SpacetimeDB MCP Server running on stdio");
+    }
+    const profile = profiles.servers[profiles.defaultServer];
+    console.error(`Using server "${profiles.defaultServer}" (${profile.host}) with credentials from ${profile.credentialSource}`);
 }
 
 run().catch((error) => {
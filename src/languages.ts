@@ -0,0 +1,14 @@
+export type Language = "typescript" | "csharp" | "rust";
+
+// Languages SpacetimeDB modules and client bindings can be written in
+export const LANGUAGES: Language[] = ["typescript", "csharp", "rust"];
+
+const LANGUAGE_ALIASES: Record<string, Language> = { ts: "typescript", "c#": "csharp", cs: "csharp", rs: "rust" };
+
+export function parseLanguage(value: string): Language | null {
+    const normalized = value.trim().toLowerCase();
+    if (LANGUAGES.includes(normalized as Language)) {
+        return normalized as Language;
+    }
+    return LANGUAGE_ALIASES[normalized] ?? null;
+}
@@ -0,0 +1,241 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { AlgebraicType, AlgebraicTypeElement, RawReducer, RawSchema, TypeDef } from "./types.js";
+
+// Where `spacetime build` leaves the module for Rust and C# projects
+const BUILD_OUTPUT_DIRS = [join("target", "wasm32-unknown-unknown", "release"), join("bin", "Release")];
+
+// AlgebraicType variants in BSATN tag order, after Ref, Sum, Product and Array
+const PRIMITIVE_TAGS = ["String", "Bool", "I8", "U8", "I16", "U16", "I32", "U32", "I64", "U64", "I128", "U128", "I256", "U256", "F32", "F64"];
+
+const LIFECYCLES = ["Init", "OnConnect", "OnDisconnect"];
+
+// SATS-JSON writes unit values as empty arrays
+const UNIT = [] as unknown as Record<string, never>;
+
+/**
+ * Finds the newest module binary that `spacetime build` wrote for the project.
+ */
+export async function findBuiltModule(projectPath: string): Promise<string> {
+    let newest: { path: string; modified: number } | null = null;
+    for (const dir of BUILD_OUTPUT_DIRS) {
+        for (const path of await wasmFiles(join(projectPath, dir))) {
+            const modified = (await stat(path)).mtimeMs;
+            if (!newest || modified > newest.modified) {
+                newest = { path, modified };
+            }
+        }
+    }
+    if (!newest) {
+        throw new Error(`No built module found in ${projectPath} (looked in ${BUILD_OUTPUT_DIRS.join(", ")})`);
+    }
+    return newest.path;
+}
+
+/**
+ * Reads the schema a built module declares, in the form `/v1/database/:db/schema` returns. The module
+ * is instantiated locally and asked to describe itself, the same way the host does before a publish;
+ * host functions other than the output sink are not available.
+ */
+export async function describeModule(wasmPath: string): Promise<RawSchema> {
+    const module = await WebAssembly.compile(await readFile(wasmPath));
+    const chunks: Uint8Array[] = [];
+    let memory: WebAssembly.Memory | undefined;
+
+    // C# modules run on WASI; node:wasi warns on import, so it is only loaded for them
+    const wasi = WebAssembly.Module.imports(module).some((entry) => entry.module.startsWith("wasi_"))
+        ? new (await import("node:wasi")).WASI({ version: "preview1", returnOnExit: true })
+        : null;
+    const imports: WebAssembly.Imports = wasi ? { ...(wasi.getImportObject() as WebAssembly.Imports) } : {};
+    for (const entry of WebAssembly.Module.imports(module)) {
+        if (entry.kind !== "function" || imports[entry.module]?.[entry.name]) continue;
+        imports[entry.module] = { ...imports[entry.module] };
+        imports[entry.module][entry.name] =
+            entry.name === "bytes_sink_write"
+                ? (_sink: number, bufferPtr: number, lengthPtr: number) => {
+                      const view = new DataView((memory as WebAssembly.Memory).buffer);
+                      const length = view.getUint32(lengthPtr, true);
+                      chunks.push(new Uint8Array(view.buffer, bufferPtr, length).slice());
+                      return 0;
+                  }
+                : () => {
+                      throw new Error(`${entry.module}.${entry.name} is not available while describing a module`);
+                  };
+    }
+
+    const instance = await WebAssembly.instantiate(module, imports);
+    const exports = instance.exports as Record<string, unknown>;
+    memory = exports.memory as WebAssembly.Memory;
+    if (typeof exports.__describe_module__ !== "function") {
+        throw new Error(`${wasmPath} is not a SpacetimeDB module (it has no __describe_module__ export)`);
+    }
+    if (wasi && typeof exports._initialize === "function") {
+        wasi.initialize(instance);
+    }
+    for (const name of Object.keys(exports).filter((key) => key.startsWith("__preinit__")).sort()) {
+        (exports[name] as () => void)();
+    }
+    (exports.__describe_module__ as (sink: number) => void)(1);
+
+    return decodeModuleDef(Buffer.concat(chunks));
+}
+
+/**
+ * Decodes a BSATN-encoded `RawModuleDef`, keeping what schema comparisons need.
+ */
+export function decodeModuleDef(bytes: Uint8Array): RawSchema {
+    const reader = new BsatnReader(bytes);
+    const version = reader.u8();
+    if (version !== 1) {
+        throw new Error(`Unsupported module definition version ${version}; only V9 modules can be described`);
+    }
+
+    const types = reader.array(() => readAlgebraicType(reader));
+    const tables = reader.array(() => {
+        const table = { name: reader.string(), product_type_ref: reader.u32() };
+        reader.array(() => reader.u16()); // primary key
+        reader.array(() => {
+            reader.option(() => reader.string());
+            reader.option(() => reader.string());
+            if (reader.u8() === 2) {
+                reader.u16(); // direct index column
+            } else {
+                reader.array(() => reader.u16());
+            }
+        });
+        reader.array(() => {
+            reader.option(() => reader.string());
+            reader.u8(); // unique is the only constraint kind
+            reader.array(() => reader.u16());
+        });
+        reader.array(() => {
+            reader.option(() => reader.string());
+            reader.u16();
+            reader.option(() => reader.skip(16));
+            reader.option(() => reader.skip(16));
+            reader.option(() => reader.skip(16));
+            reader.skip(16);
+        });
+        reader.option(() => {
+            reader.option(() => reader.string());
+            reader.string();
+            reader.u16();
+        });
+        reader.u8(); // table type
+        reader.u8(); // table access
+        return table;
+    });
+    const reducers = reader.array((): RawReducer => ({
+        name: reader.string(),
+        params: { elements: reader.array(() => readElement(reader)) },
+        lifecycle: toRustOption(reader.option(() => ({ [LIFECYCLES[reader.u8()]]: UNIT }))),
+    }));
+    const typeDefs = reader.array((): TypeDef => ({
+        name: { scope: reader.array(() => reader.string()), name: reader.string() },
+        ty: reader.u32(),
+        custom_ordering: reader.u8() !== 0,
+    }));
+    // Misc exports and row level security follow; nothing here reads them
+
+    return { tables, reducers, typespace: { types: types as RawSchema["typespace"]["types"] }, types: typeDefs };
+}
+
+async function wasmFiles(dir: string): Promise<string[]> {
+    let entries;
+    try {
+        entries = await readdir(dir, { recursive: true, withFileTypes: true });
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+    }
+    // Rust keeps dependency artifacts in deps/, which are not the module
+    return entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".wasm") && !/[\\/]deps$/.test(entry.parentPath))
+        .map((entry) => join(entry.parentPath, entry.name));
+}
+
+function readAlgebraicType(reader: BsatnReader): AlgebraicType {
+    const tag = reader.u8();
+    switch (tag) {
+        case 0:
+            return { Ref: reader.u32() };
+        case 1:
+            return { Sum: { variants: reader.array(() => readElement(reader)) } };
+        case 2:
+            return { Product: { elements: reader.array(() => readElement(reader)) } };
+        case 3:
+            return { Array: readAlgebraicType(reader) };
+        default: {
+            const primitive = PRIMITIVE_TAGS[tag - 4];
+            if (!primitive) {
+                throw new Error(`Unknown algebraic type tag ${tag}`);
+            }
+            return { [primitive]: UNIT } as AlgebraicType;
+        }
+    }
+}
+
+function readElement(reader: BsatnReader): AlgebraicTypeElement {
+    return { name: toRustOption(reader.option(() => reader.string())), algebraic_type: readAlgebraicType(reader) };
+}
+
+function toRustOption<T>(value: T | undefined): { some?: T; none?: Record<string, never> } {
+    return value === undefined ? { none: UNIT } : { some: value };
+}
+
+class BsatnReader {
+    private offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    u8(): number {
+        this.need(1);
+        return this.view.getUint8(this.offset++);
+    }
+
+    u16(): number {
+        this.need(2);
+        const value = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    u32(): number {
+        this.need(4);
+        const value = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    string(): string {
+        const length = this.u32();
+        this.need(length);
+        const text = Buffer.from(this.bytes.subarray(this.offset, this.offset + length)).toString("utf8");
+        this.offset += length;
+        return text;
+    }
+
+    skip(length: number): void {
+        this.need(length);
+        this.offset += length;
+    }
+
+    array<T>(readItem: () => T): T[] {
+        const length = this.u32();
+        return Array.from({ length }, readItem);
+    }
+
+    // Options are sums with `some` as variant 0 and `none` as variant 1
+    option<T>(readValue: () => T): T | undefined {
+        return this.u8() === 0 ? readValue() : undefined;
+    }
+
+    private need(length: number): void {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error("Module definition ended unexpectedly");
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import { readFileSync } from "node:fs";
+
+export interface PolicyConfig {
+    readOnly?: boolean;
+    allowedDatabases?: string[];
+    deniedDatabases?: string[];
+    allowedReducers?: string[];
+    blockMutatingSql?: boolean;
+}
+
+// Tools that change data, deployments or local project files; hidden entirely in read-only mode
+export const MUTATING_TOOLS = new Set([
+    "publish_database",
+    "delete_database",
+    "add_database_alias",
+    "call_reducer",
+    "call_reducers_batch",
+    "import_database",
+    "seed_database",
+    "generate_bindings",
+    "build_module",
+    "init_module",
+]);
+
+const MUTATING_SQL_KEYWORDS = new Set([
+    "INSERT", "UPDATE", "DELETE", "DROP", "CREATE", "ALTER", "TRUNCATE", "SET", "GRANT", "REVOKE",
+]);
+
+export function loadPolicyConfig(env: NodeJS.ProcessEnv): PolicyConfig {
+    let fileConfig: PolicyConfig = {};
+    if (env.SPACETIMEDB_POLICY_FILE) {
+        try {
+            fileConfig = JSON.parse(readFileSync(env.SPACETIMEDB_POLICY_FILE, "utf8")) as PolicyConfig;
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            throw new Error(`Failed to read policy file ${env.SPACETIMEDB_POLICY_FILE}: ${message}`);
+        }
+    }
+
+    return {
+        readOnly: parseBoolean(env.SPACETIMEDB_READ_ONLY) ?? fileConfig.readOnly,
+        allowedDatabases: parseList(env.SPACETIMEDB_ALLOWED_DATABASES) ?? fileConfig.allowedDatabases,
+        deniedDatabases: parseList(env.SPACETIMEDB_DENIED_DATABASES) ?? fileConfig.deniedDatabases,
+        allowedReducers: parseList(env.SPACETIMEDB_ALLOWED_REDUCERS) ?? fileConfig.allowedReducers,
+        blockMutatingSql: parseBoolean(env.SPACETIMEDB_BLOCK_MUTATING_SQL) ?? fileConfig.blockMutatingSql,
+    };
+}
+
+export function isToolAllowed(policy: PolicyConfig | undefined, toolName: string): boolean {
+    return !(policy?.readOnly && MUTATING_TOOLS.has(toolName));
+}
+
+export function isDatabaseAllowed(policy: PolicyConfig | undefined, database: string): boolean {
+    if (policy?.deniedDatabases?.some((pattern) => matchesGlob(pattern, database))) {
+        return false;
+    }
+    if (policy?.allowedDatabases && !policy.allowedDatabases.some((pattern) => matchesGlob(pattern, database))) {
+        return false;
+    }
+    return true;
+}
+
+export function isReducerAllowed(policy: PolicyConfig | undefined, reducer: string): boolean {
+    if (!policy?.allowedReducers) return true;
+    return policy.allowedReducers.some((pattern) => matchesGlob(pattern, reducer));
+}
+
+/**
+ * Returns a description of the violated rule, or null when the call is permitted.
+ * `database` is null for tools that are not scoped to a database.
+ */
+export function checkToolCall(
+    policy: PolicyConfig | undefined,
+    toolName: string,
+    database: string | null,
+    args: Record<string, unknown>
+): string | null {
+    if (!policy) return null;
+
+    if (!isToolAllowed(policy, toolName)) {
+        return `Tool "${toolName}" is disabled in read-only mode`;
+    }
+
+    if (database !== null && !isDatabaseAllowed(policy, database)) {
+        return `Database "${database}" is not allowed`;
+    }
+
+    if (toolName === "call_reducer" && typeof args.reducer === "string" && !isReducerAllowed(policy, args.reducer)) {
+        return `Reducer "${args.reducer}" is not in the allowed reducer list`;
+    }
+
+    if (
+        toolName === "sql_query" &&
+        (policy.readOnly || policy.blockMutatingSql) &&
+        typeof args.query === "string" &&
+        isMutatingSql(args.query)
+    ) {
+        return "Mutating SQL statements are not allowed";
+    }
+
+    return null;
+}
+
+export function isMutatingSql(query: string): boolean {
+    return splitSqlStatements(query).some((statement) => {
+        // Parentheses around a statement do not change what it does
+        const keyword = /^[\s(]*([A-Za-z_]+)/.exec(statement)?.[1]?.toUpperCase() ?? "";
+        return MUTATING_SQL_KEYWORDS.has(keyword);
+    });
+}
+
+/**
+ * Splits SQL into statements on `;` and drops `--` and `/* *\/` comments. Both are only
+ * recognized outside string literals and quoted identifiers.
+ */
+export function splitSqlStatements(query: string): string[] {
+    const statements: string[] = [];
+    let current = "";
+    let quote: string | null = null;
+    for (let i = 0; i < query.length; i++) {
+        const char = query[i];
+        if (quote) {
+            // A doubled quote closes and reopens the literal, which leaves it open as it should
+            if (char === quote) quote = null;
+        } else if (char === "-" && query[i + 1] === "-") {
+            const end = query.indexOf("\n", i);
+            i = (end === -1 ? query.length : end) - 1;
+            continue;
+        } else if (char === "/" && query[i + 1] === "*") {
+            const end = query.indexOf("*/", i + 2);
+            i = end === -1 ? query.length : end + 1;
+            current += " ";
+            continue;
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === ";") {
+            statements.push(current);
+            current = "";
+            continue;
+        }
+        current += char;
+    }
+    statements.push(current);
+    return statements.map((statement) => statement.trim()).filter(Boolean);
+}
+
+export function matchesGlob(pattern: string, value: string): boolean {
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(value);
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined || value === "") return undefined;
+    return ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined || value === "") return undefined;
+    return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
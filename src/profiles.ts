@@ -0,0 +1,140 @@
+import { readFileSync } from "node:fs";
+import { CliConfigSource, defaultCliConfigPath, readCliConfig } from "./cli-config.js";
+
+export interface ServerProfile {
+    host: string;
+    token: string;
+    defaultDatabase: string;
+    identity?: string;
+    // Live token for profiles backed by the CLI config; takes precedence over `token`
+    getToken?: () => string;
+    credentialSource?: string;
+}
+
+export interface ServerProfiles {
+    defaultServer: string;
+    servers: Record<string, ServerProfile>;
+    cliConfigSource?: CliConfigSource;
+}
+
+interface ServerProfilesFile {
+    default?: string;
+    servers?: Record<string, Partial<ServerProfile>>;
+}
+
+export const ENV_SERVER_NAME = "default";
+
+/**
+ * Resolves server profiles and their credentials, in order of precedence:
+ * `SPACETIMEDB_SERVERS_FILE`, then `SPACETIMEDB_HOST`/`SPACETIMEDB_TOKEN`, then the spacetime CLI config.
+ * Profiles without a token of their own fall back to the CLI's token.
+ *
+ * Pass the `cliConfigSource` of an earlier call to rebuild the profiles from its current config
+ * after the file changed, keeping the same live token.
+ */
+export function loadServerProfiles(env: NodeJS.ProcessEnv, cliConfigSource?: CliConfigSource): ServerProfiles {
+    const envProfile: ServerProfile = {
+        host: env.SPACETIMEDB_HOST || "http://localhost:3000",
+        token: env.SPACETIMEDB_TOKEN || "",
+        defaultDatabase: env.SPACETIMEDB_DEFAULT_DATABASE || "",
+        identity: env.SPACETIMEDB_IDENTITY || "",
+        credentialSource: env.SPACETIMEDB_TOKEN ? "SPACETIMEDB_TOKEN" : "none",
+    };
+
+    if (env.SPACETIMEDB_SERVERS_FILE) {
+        return loadServersFile(env, env.SPACETIMEDB_SERVERS_FILE, cliConfigSource);
+    }
+
+    if (env.SPACETIMEDB_TOKEN) {
+        return { defaultServer: ENV_SERVER_NAME, servers: { [ENV_SERVER_NAME]: envProfile } };
+    }
+
+    const source = cliConfigSource ?? loadCliConfigSource(env);
+    if (!source?.token) {
+        return { defaultServer: ENV_SERVER_NAME, servers: { [ENV_SERVER_NAME]: envProfile }, cliConfigSource: source ?? undefined };
+    }
+
+    const cliConfig = source.config;
+    const cliServers = Object.entries(cliConfig.servers);
+    if (env.SPACETIMEDB_HOST || cliServers.length === 0) {
+        return {
+            defaultServer: ENV_SERVER_NAME,
+            servers: { [ENV_SERVER_NAME]: withCliToken(envProfile, source) },
+            cliConfigSource: source,
+        };
+    }
+
+    const defaultServer = env.SPACETIMEDB_SERVER || cliConfig.defaultServer || cliServers[0][0];
+    const servers: Record<string, ServerProfile> = {};
+    for (const [name, host] of cliServers) {
+        const isDefault = name === defaultServer;
+        servers[name] = withCliToken(
+            {
+                host,
+                token: "",
+                defaultDatabase: isDefault ? envProfile.defaultDatabase : "",
+                identity: isDefault ? envProfile.identity : "",
+            },
+            source
+        );
+    }
+    if (!servers[defaultServer]) {
+        throw new Error(`Default server "${defaultServer}" is not defined in ${source.path}`);
+    }
+
+    return { defaultServer, servers, cliConfigSource: source };
+}
+
+function loadServersFile(env: NodeJS.ProcessEnv, path: string, cliConfigSource?: CliConfigSource): ServerProfiles {
+    let file: ServerProfilesFile;
+    try {
+        file = JSON.parse(readFileSync(path, "utf8")) as ServerProfilesFile;
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to read servers file ${path}: ${message}`);
+    }
+
+    const servers: Record<string, ServerProfile> = {};
+    for (const [name, profile] of Object.entries(file.servers ?? {})) {
+        if (!profile?.host) {
+            throw new Error(`Server profile "${name}" in ${path} has no host`);
+        }
+        const resolved: ServerProfile = {
+            host: profile.host,
+            token: profile.token ?? "",
+            defaultDatabase: profile.defaultDatabase ?? "",
+            identity: profile.identity ?? "",
+            credentialSource: profile.token ? `servers file (${path})` : "none",
+        };
+        if (!profile.token) {
+            cliConfigSource ??= loadCliConfigSource(env) ?? undefined;
+        }
+        servers[name] = !profile.token && cliConfigSource ? withCliToken(resolved, cliConfigSource) : resolved;
+    }
+
+    const names = Object.keys(servers);
+    if (names.length === 0) {
+        throw new Error(`No servers defined in ${path}`);
+    }
+
+    const defaultServer = env.SPACETIMEDB_SERVER || file.default || names[0];
+    if (!servers[defaultServer]) {
+        throw new Error(`Default server "${defaultServer}" is not defined in ${path}`);
+    }
+
+    return { defaultServer, servers, cliConfigSource };
+}
+
+function loadCliConfigSource(env: NodeJS.ProcessEnv): CliConfigSource | null {
+    const config = readCliConfig(defaultCliConfigPath(env));
+    return config?.token ? new CliConfigSource(config) : null;
+}
+
+function withCliToken(profile: ServerProfile, tokenSource: CliConfigSource): ServerProfile {
+    return {
+        ...profile,
+        token: tokenSource.token,
+        getToken: () => tokenSource.token,
+        credentialSource: `spacetime CLI config (${tokenSource.path})`,
+    };
+}
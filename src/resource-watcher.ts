@@ -0,0 +1,132 @@
+import { isPlainIdentifier } from "./sql-lint.js";
+import { ToolResult } from "./types.js";
+
+export interface WatchTarget {
+    uri: string;
+    database: string;
+    kind: "logs" | "table";
+    table?: string;
+}
+
+export interface ResourceWatcherConfig {
+    getLogs: (database: string, lineCount?: number) => Promise<ToolResult>;
+    subscribe: (database: string, queries: string[], onChange?: () => void) => Promise<ToolResult>;
+    unsubscribe: (id: string) => ToolResult;
+    notify: (uri: string) => void;
+    logPollIntervalMs?: number;
+}
+
+// Registered before its subscription is set up, so concurrent watch calls for a URI share one
+interface Watch {
+    ready: Promise<ToolResult>;
+    stop?: () => void;
+    closed: boolean;
+}
+
+export class ResourceWatcher {
+    private watches = new Map<string, Watch>();
+    private config: ResourceWatcherConfig;
+    private logPollIntervalMs: number;
+
+    constructor(config: ResourceWatcherConfig) {
+        this.config = config;
+        this.logPollIntervalMs = config.logPollIntervalMs ?? 2000;
+    }
+
+    async watch(target: WatchTarget): Promise<ToolResult> {
+        const existing = this.watches.get(target.uri);
+        if (existing) {
+            return existing.ready;
+        }
+
+        const watch: Watch = {
+            closed: false,
+            ready: this.start(target).then(({ result, stop }) => {
+                if (stop && watch.closed) {
+                    stop();
+                } else {
+                    watch.stop = stop;
+                }
+                if (!result.success && this.watches.get(target.uri) === watch) {
+                    this.watches.delete(target.uri);
+                }
+                return result;
+            }),
+        };
+        this.watches.set(target.uri, watch);
+        return watch.ready;
+    }
+
+    unwatch(uri: string): void {
+        const watch = this.watches.get(uri);
+        if (!watch) return;
+        this.watches.delete(uri);
+        // A watch that is still starting stops as soon as it is ready
+        watch.closed = true;
+        watch.stop?.();
+    }
+
+    closeAll(): void {
+        for (const uri of [...this.watches.keys()]) {
+            this.unwatch(uri);
+        }
+    }
+
+    private async start(target: WatchTarget): Promise<{ result: ToolResult; stop?: () => void }> {
+        const watching = { success: true, data: { uri: target.uri } };
+        try {
+            if (target.kind === "logs") {
+                return { result: watching, stop: await this.followLogs(target) };
+            }
+
+            if (!target.table || !isPlainIdentifier(target.table)) {
+                return { result: { success: false, error: `Invalid table name: ${target.table ?? ""}` } };
+            }
+            const result = await this.config.subscribe(
+                target.database,
+                [`SELECT * FROM ${target.table}`],
+                () => this.config.notify(target.uri)
+            );
+            if (!result.success) {
+                return { result };
+            }
+            const subscriptionId = (result.data as { subscription_id: string }).subscription_id;
+            return { result: watching, stop: () => this.config.unsubscribe(subscriptionId) };
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            return { result: { success: false, error: message } };
+        }
+    }
+
+    private async followLogs(target: WatchTarget): Promise<() => void> {
+        // Compare the same window the logs resource serves; any difference means new lines arrived
+        const fetchSnapshot = async () => {
+            const result = await this.config.getLogs(target.database, 100);
+            return result.success ? JSON.stringify(result.data) : null;
+        };
+
+        let lastSnapshot = await fetchSnapshot();
+        let inFlight = false;
+        const poll = async () => {
+            if (inFlight) return;
+            inFlight = true;
+            try {
+                const snapshot = await fetchSnapshot();
+                if (snapshot !== null && snapshot !== lastSnapshot) {
+                    lastSnapshot = snapshot;
+                    this.config.notify(target.uri);
+                }
+            } finally {
+                inFlight = false;
+            }
+        };
+        const timer = setInterval(() => {
+            poll().catch((error: unknown) => {
+                console.error(`Failed to poll logs for ${target.uri}:`, error);
+            });
+        }, this.logPollIntervalMs);
+        timer.unref?.();
+
+        return () => clearInterval(timer);
+    }
+}
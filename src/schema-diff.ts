@@ -0,0 +1,252 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { parseReducers, parseTables, resolveType } from "./schema.js";
+import { AlgebraicType, AlgebraicTypeElement, ParsedParam, RawSchema } from "./types.js";
+
+export interface SchemaChange {
+    kind: "table" | "column" | "reducer" | "type";
+    change: "added" | "removed" | "changed";
+    name: string;
+    before?: string;
+    after?: string;
+    // True when clients built against the old schema stop working
+    breaking: boolean;
+    detail?: string;
+}
+
+export interface SchemaDiff {
+    identical: boolean;
+    breaking: boolean;
+    changes: SchemaChange[];
+}
+
+interface TypeDefShape {
+    kind: "struct" | "enum" | "alias";
+    members: string[];
+}
+
+/**
+ * Compares two schemas. `before` is the schema existing clients were built against.
+ */
+export function diffSchemas(before: RawSchema, after: RawSchema): SchemaDiff {
+    const changes = [...diffTables(before, after), ...diffReducers(before, after), ...diffTypes(before, after)];
+    return {
+        identical: changes.length === 0,
+        breaking: changes.some((change) => change.breaking),
+        changes,
+    };
+}
+
+/**
+ * Lists the changes SpacetimeDB's automatic migration cannot apply to existing data.
+ * Adding tables and any reducer or standalone type change migrate automatically.
+ */
+export function migrationBlockers(diff: SchemaDiff): string[] {
+    return diff.changes
+        .filter((change) => change.kind === "column" || (change.kind === "table" && change.change !== "added"))
+        .map((change) => `${change.kind} ${change.name} ${change.change}${change.detail ? ` (${change.detail})` : ""}`);
+}
+
+function diffTables(before: RawSchema, after: RawSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldTables = new Map(parseTables(before).map((table) => [table.name, table]));
+    const newTables = new Map(parseTables(after).map((table) => [table.name, table]));
+
+    for (const [name, table] of oldTables) {
+        const updated = newTables.get(name);
+        if (!updated) {
+            changes.push({ kind: "table", change: "removed", name, breaking: true });
+            continue;
+        }
+
+        const oldColumns = table.columns.map((column) => column.name);
+        const newColumns = updated.columns.map((column) => column.name);
+        for (const column of table.columns) {
+            const match = updated.columns.find((candidate) => candidate.name === column.name);
+            if (!match) {
+                changes.push({ kind: "column", change: "removed", name: `${name}.${column.name}`, before: column.fullType, breaking: true });
+            } else if (match.fullType !== column.fullType) {
+                changes.push({
+                    kind: "column",
+                    change: "changed",
+                    name: `${name}.${column.name}`,
+                    before: column.fullType,
+                    after: match.fullType,
+                    breaking: true,
+                    detail: "column type changed",
+                });
+            }
+        }
+        for (const column of updated.columns) {
+            if (!oldColumns.includes(column.name)) {
+                changes.push({
+                    kind: "column",
+                    change: "added",
+                    name: `${name}.${column.name}`,
+                    after: column.fullType,
+                    breaking: true,
+                    detail: "clients decode rows by position and cannot read the new row layout",
+                });
+            }
+        }
+
+        const kept = oldColumns.filter((column) => newColumns.includes(column));
+        const keptInNewOrder = newColumns.filter((column) => oldColumns.includes(column));
+        if (kept.join(",") !== keptInNewOrder.join(",")) {
+            changes.push({
+                kind: "table",
+                change: "changed",
+                name,
+                before: kept.join(", "),
+                after: keptInNewOrder.join(", "),
+                breaking: true,
+                detail: "column order changed",
+            });
+        }
+    }
+
+    for (const name of newTables.keys()) {
+        if (!oldTables.has(name)) {
+            changes.push({ kind: "table", change: "added", name, breaking: false });
+        }
+    }
+
+    return changes;
+}
+
+function diffReducers(before: RawSchema, after: RawSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldReducers = new Map(parseReducers(before).map((reducer) => [reducer.name, reducer]));
+    const newReducers = new Map(parseReducers(after).map((reducer) => [reducer.name, reducer]));
+
+    for (const [name, reducer] of oldReducers) {
+        const updated = newReducers.get(name);
+        if (!updated) {
+            // Lifecycle reducers are never called by clients
+            changes.push({ kind: "reducer", change: "removed", name, before: signature(reducer.params), breaking: !reducer.lifecycle });
+            continue;
+        }
+
+        if (signature(reducer.params) !== signature(updated.params)) {
+            changes.push({
+                kind: "reducer",
+                change: "changed",
+                name,
+                before: signature(reducer.params),
+                after: signature(updated.params),
+                breaking: !reducer.lifecycle,
+                detail: "signature changed",
+            });
+        }
+        if (reducer.lifecycle !== updated.lifecycle) {
+            changes.push({
+                kind: "reducer",
+                change: "changed",
+                name,
+                before: reducer.lifecycle ?? "none",
+                after: updated.lifecycle ?? "none",
+                breaking: updated.lifecycle !== null,
+                detail: "lifecycle changed",
+            });
+        }
+    }
+
+    for (const [name, reducer] of newReducers) {
+        if (!oldReducers.has(name)) {
+            changes.push({ kind: "reducer", change: "added", name, after: signature(reducer.params), breaking: false });
+        }
+    }
+
+    return changes;
+}
+
+function diffTypes(before: RawSchema, after: RawSchema): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const oldTypes = typeDefShapes(before);
+    const newTypes = typeDefShapes(after);
+
+    for (const [name, shape] of oldTypes) {
+        const updated = newTypes.get(name);
+        if (!updated) {
+            changes.push({ kind: "type", change: "removed", name, before: describeShape(shape), breaking: true });
+            continue;
+        }
+        if (describeShape(shape) === describeShape(updated)) continue;
+
+        // Appending enum variants keeps every existing value decodable
+        const appendedVariants =
+            shape.kind === "enum" &&
+            updated.kind === "enum" &&
+            shape.members.every((member, i) => updated.members[i] === member);
+        changes.push({
+            kind: "type",
+            change: "changed",
+            name,
+            before: describeShape(shape),
+            after: describeShape(updated),
+            breaking: !appendedVariants,
+            detail: appendedVariants ? "variants added" : `${updated.kind} definition changed`,
+        });
+    }
+
+    for (const [name, shape] of newTypes) {
+        if (!oldTypes.has(name)) {
+            changes.push({ kind: "type", change: "added", name, after: describeShape(shape), breaking: false });
+        }
+    }
+
+    return changes;
+}
+
+function typeDefShapes(schema: RawSchema): Map<string, TypeDefShape> {
+    const shapes = new Map<string, TypeDefShape>();
+    for (const typeDef of schema.types) {
+        const name = [...typeDef.name.scope.map(String), typeDef.name.name].join("::");
+        const definition = schema.typespace.types[typeDef.ty] as AlgebraicType | undefined;
+        const expanding = new Set([typeDef.ty]);
+        const member = (element: AlgebraicTypeElement) =>
+            `${element.name.some ?? "(unnamed)"}: ${resolveType(schema, element.algebraic_type, expanding)}`;
+
+        if (definition && "Product" in definition && definition.Product) {
+            shapes.set(name, { kind: "struct", members: definition.Product.elements.map(member) });
+        } else if (definition && "Sum" in definition && definition.Sum) {
+            shapes.set(name, { kind: "enum", members: definition.Sum.variants.map(member) });
+        } else {
+            shapes.set(name, { kind: "alias", members: [definition ? resolveType(schema, definition, expanding) : `Ref(${typeDef.ty})`] });
+        }
+    }
+    return shapes;
+}
+
+function describeShape(shape: TypeDefShape): string {
+    return shape.kind === "alias" ? shape.members[0] : `${shape.kind} { ${shape.members.join(", ")} }`;
+}
+
+function signature(params: ParsedParam[]): string {
+    return `(${params.map((param) => `${param.name}: ${param.fullType}`).join(", ")})`;
+}
+
+/**
+ * Reads a schema saved by `saveSchemaSnapshot`, or returns null when the file does not exist yet.
+ */
+export async function loadSchemaSnapshot(path: string): Promise<RawSchema | null> {
+    let text: string;
+    try {
+        text = await readFile(path, "utf8");
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return null;
+        }
+        throw error;
+    }
+    const snapshot = JSON.parse(text) as { schema?: RawSchema };
+    if (!snapshot.schema?.tables || !snapshot.schema?.typespace) {
+        throw new Error(`${path} is not a schema snapshot`);
+    }
+    return snapshot.schema;
+}
+
+export async function saveSchemaSnapshot(path: string, database: string, schema: RawSchema): Promise<void> {
+    await mkdir(dirname(resolve(path)), { recursive: true });
+    await writeFile(path, JSON.stringify({ database, savedAt: new Date().toISOString(), schema }, null, 2), "utf8");
+}
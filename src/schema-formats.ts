@@ -0,0 +1,356 @@
+import {
+    optionInner,
+    parseReducers,
+    parseTables,
+    resolveType,
+    specialTypeName,
+    tableRowElements,
+} from "./schema.js";
+import { AlgebraicType, AlgebraicTypeElement, RawReducer, RawSchema } from "./types.js";
+
+export type SchemaFormat = "text" | "json" | "typescript" | "jsonschema";
+
+export const SCHEMA_FORMATS: SchemaFormat[] = ["text", "json", "typescript", "jsonschema"];
+
+type JsonSchema = Record<string, unknown>;
+
+const INTEGER_BITS: Record<string, { signed: boolean; bits: number }> = {
+    I8: { signed: true, bits: 8 },
+    U8: { signed: false, bits: 8 },
+    I16: { signed: true, bits: 16 },
+    U16: { signed: false, bits: 16 },
+    I32: { signed: true, bits: 32 },
+    U32: { signed: false, bits: 32 },
+    I64: { signed: true, bits: 64 },
+    U64: { signed: false, bits: 64 },
+    I128: { signed: true, bits: 128 },
+    U128: { signed: false, bits: 128 },
+    I256: { signed: true, bits: 256 },
+    U256: { signed: false, bits: 256 },
+};
+
+export function formatSchemaJson(schema: RawSchema): string {
+    const types = schema.types.map((typeDef) => {
+        const name = qualifiedName(typeDef);
+        const definition = schema.typespace.types[typeDef.ty] as AlgebraicType | undefined;
+        if (definition && "Product" in definition && definition.Product) {
+            return {
+                name,
+                kind: "struct",
+                fields: definition.Product.elements.map((element) => ({
+                    name: element.name.some ?? null,
+                    type: resolveType(schema, element.algebraic_type, new Set([typeDef.ty])),
+                })),
+            };
+        }
+        if (definition && "Sum" in definition && definition.Sum) {
+            return {
+                name,
+                kind: "enum",
+                variants: definition.Sum.variants.map((variant) => ({
+                    name: variant.name.some ?? null,
+                    type: isUnit(variant.algebraic_type)
+                        ? null
+                        : resolveType(schema, variant.algebraic_type, new Set([typeDef.ty])),
+                })),
+            };
+        }
+        return { name, kind: "alias", type: definition ? resolveType(schema, definition) : `Ref(${typeDef.ty})` };
+    });
+
+    const model = {
+        tables: parseTables(schema).map((table) => ({
+            name: table.name,
+            columns: table.columns.map((column) => ({ name: column.name, type: column.fullType })),
+        })),
+        reducers: parseReducers(schema).map((reducer) => ({
+            name: reducer.name,
+            lifecycle: reducer.lifecycle,
+            params: reducer.params.map((param) => ({ name: param.name, type: param.fullType })),
+        })),
+        types,
+    };
+
+    return JSON.stringify(model, null, 2);
+}
+
+export function formatSchemaTypeScript(schema: RawSchema): string {
+    const specials = new Set<string>();
+    const toTs = (type: AlgebraicType, expanding: Set<number>): string =>
+        typeScriptType(schema, type, expanding, specials);
+
+    const blocks: string[] = [];
+
+    for (const typeDef of schema.types) {
+        const name = pascalCase(typeDef.name.name);
+        const definition = schema.typespace.types[typeDef.ty] as AlgebraicType | undefined;
+        const expanding = new Set([typeDef.ty]);
+        if (definition && "Product" in definition && definition.Product) {
+            blocks.push(`export interface ${name} ${typeScriptFields(definition.Product.elements, (t) => toTs(t, expanding))}`);
+        } else if (definition && "Sum" in definition && definition.Sum) {
+            blocks.push(`export type ${name} =\n${definition.Sum.variants.map((variant) => `    | ${typeScriptVariant(variant, (t) => toTs(t, expanding))}`).join("\n")};`);
+        } else {
+            blocks.push(`export type ${name} = ${definition ? toTs(definition, expanding) : "unknown"};`);
+        }
+    }
+
+    for (const table of schema.tables) {
+        const elements = tableRowElements(schema, table);
+        if (!elements) continue;
+        blocks.push(`export interface ${pascalCase(table.name)}Row ${typeScriptFields(elements, (t) => toTs(t, new Set()))}`);
+    }
+
+    for (const reducer of schema.reducers) {
+        const params = reducer.params.elements.map(
+            (element, i) => `${element.name.some ?? `arg${i}`}: ${toTs(element.algebraic_type, new Set())}`
+        );
+        blocks.push(`export type ${pascalCase(reducer.name)}Args = [${params.join(", ")}];`);
+    }
+
+    const header = specials.size > 0
+        ? `import { ${[...specials].sort().join(", ")} } from "@clockworklabs/spacetimedb-sdk";\n\n`
+        : "";
+    return `${header}${blocks.join("\n\n")}\n`;
+}
+
+export function formatSchemaJsonSchema(schema: RawSchema): string {
+    const document = (build: (convert: (type: AlgebraicType) => JsonSchema) => JsonSchema): JsonSchema => {
+        const defs: Record<string, JsonSchema> = {};
+        const convert = (type: AlgebraicType) => jsonSchemaType(schema, type, defs);
+        const root = build(convert);
+        return {
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            ...root,
+            ...(Object.keys(defs).length > 0 ? { $defs: defs } : {}),
+        };
+    };
+
+    const tables: Record<string, JsonSchema> = {};
+    for (const table of schema.tables) {
+        const elements = tableRowElements(schema, table);
+        if (!elements) continue;
+        tables[table.name] = document((convert) => ({ title: `${table.name} row`, ...productSchema(elements, convert) }));
+    }
+
+    const reducers: Record<string, JsonSchema> = {};
+    for (const reducer of schema.reducers) {
+        const elements = reducer.params.elements;
+        reducers[reducer.name] = document((convert) => ({
+            title: `${reducer.name} arguments`,
+            type: "array",
+            prefixItems: elements.map((element) => ({
+                ...convert(element.algebraic_type),
+                ...(element.name.some ? { title: element.name.some } : {}),
+            })),
+            items: false,
+            minItems: elements.length,
+            maxItems: elements.length,
+        }));
+    }
+
+    return JSON.stringify({ tables, reducers }, null, 2);
+}
+
+/**
+ * Object-shaped input schema for a reducer, one property per parameter, used for generated reducer tools.
+ * Unnamed parameters are exposed as `arg<index>`.
+ */
+export function reducerInputSchema(schema: RawSchema, reducer: RawReducer): JsonSchema {
+    const defs: Record<string, JsonSchema> = {};
+    const elements = reducer.params.elements;
+    const names = elements.map((element, i) => reducerParamName(element, i));
+    return {
+        type: "object",
+        properties: Object.fromEntries(
+            elements.map((element, i) => [names[i], jsonSchemaType(schema, element.algebraic_type, defs)])
+        ),
+        required: names,
+        additionalProperties: false,
+        ...(Object.keys(defs).length > 0 ? { $defs: defs } : {}),
+    };
+}
+
+export function reducerParamName(element: AlgebraicTypeElement, index: number): string {
+    return element.name.some ?? `arg${index}`;
+}
+
+function typeScriptType(
+    schema: RawSchema,
+    type: AlgebraicType,
+    expanding: Set<number>,
+    specials: Set<string>
+): string {
+    const [typeKey, typeValue] = Object.entries(type)[0] ?? [];
+    const recurse = (inner: AlgebraicType, next: Set<number> = expanding) => typeScriptType(schema, inner, next, specials);
+
+    if (typeKey && typeKey in INTEGER_BITS) {
+        return INTEGER_BITS[typeKey].bits > 32 ? "bigint" : "number";
+    }
+
+    switch (typeKey) {
+        case "F32":
+        case "F64":
+            return "number";
+        case "Bool":
+            return "boolean";
+        case "String":
+            return "string";
+        case "Array": {
+            const inner = recurse(typeValue as AlgebraicType);
+            return /^[\w.]+$/.test(inner) ? `${inner}[]` : `Array<${inner}>`;
+        }
+        case "Option":
+            return `${recurse(typeValue as AlgebraicType)} | undefined`;
+        case "Ref": {
+            const refIndex = typeValue as number;
+            const typeDef = schema.types.find((def) => def.ty === refIndex);
+            if (typeDef) return pascalCase(typeDef.name.name);
+            const target = schema.typespace.types[refIndex] as AlgebraicType | undefined;
+            if (!target || expanding.has(refIndex)) return "unknown";
+            return recurse(target, new Set([...expanding, refIndex]));
+        }
+        case "Product": {
+            const product = typeValue as { elements: AlgebraicTypeElement[] };
+            const special = specialTypeName(product);
+            if (special) {
+                specials.add(special);
+                return special;
+            }
+            return typeScriptFields(product.elements, (inner) => recurse(inner), true);
+        }
+        case "Sum": {
+            const sum = typeValue as { variants: AlgebraicTypeElement[] };
+            const inner = optionInner(sum);
+            if (inner) return `${recurse(inner)} | undefined`;
+            if (sum.variants.length === 0) return "never";
+            return sum.variants.map((variant) => typeScriptVariant(variant, (t) => recurse(t))).join(" | ");
+        }
+        default:
+            return "unknown";
+    }
+}
+
+function typeScriptFields(
+    elements: AlgebraicTypeElement[],
+    convert: (type: AlgebraicType) => string,
+    inline = false
+): string {
+    if (elements.length === 0) return "{}";
+    const fields = elements.map((element, i) => `${element.name.some ?? `field${i}`}: ${convert(element.algebraic_type)};`);
+    return inline ? `{ ${fields.join(" ")} }` : `{\n${fields.map((field) => `    ${field}`).join("\n")}\n}`;
+}
+
+function typeScriptVariant(variant: AlgebraicTypeElement, convert: (type: AlgebraicType) => string): string {
+    const tag = JSON.stringify(variant.name.some ?? "");
+    if (isUnit(variant.algebraic_type)) {
+        return `{ tag: ${tag} }`;
+    }
+    return `{ tag: ${tag}; value: ${convert(variant.algebraic_type)} }`;
+}
+
+function jsonSchemaType(schema: RawSchema, type: AlgebraicType, defs: Record<string, JsonSchema>): JsonSchema {
+    const [typeKey, typeValue] = Object.entries(type)[0] ?? [];
+    const convert = (inner: AlgebraicType) => jsonSchemaType(schema, inner, defs);
+
+    if (typeKey && typeKey in INTEGER_BITS) {
+        const { signed, bits } = INTEGER_BITS[typeKey];
+        const min = signed ? -(2n ** BigInt(bits - 1)) : 0n;
+        const max = signed ? 2n ** BigInt(bits - 1) - 1n : 2n ** BigInt(bits) - 1n;
+        if (bits <= 32) {
+            return { type: "integer", minimum: Number(min), maximum: Number(max) };
+        }
+        // Values beyond 2^53 lose precision as JSON numbers, so decimal strings are accepted too
+        return {
+            anyOf: [{ type: "integer" }, { type: "string", pattern: signed ? "^-?\\d+$" : "^\\d+$" }],
+            description: `${typeKey} (${min} to ${max})`,
+        };
+    }
+
+    switch (typeKey) {
+        case "F32":
+        case "F64":
+            return { type: "number" };
+        case "Bool":
+            return { type: "boolean" };
+        case "String":
+            return { type: "string" };
+        case "Array":
+            return { type: "array", items: convert(typeValue as AlgebraicType) };
+        case "Option":
+            return optionSchema(convert(typeValue as AlgebraicType));
+        case "Ref": {
+            const refIndex = typeValue as number;
+            const typeDef = schema.types.find((def) => def.ty === refIndex);
+            const name = typeDef ? qualifiedName(typeDef).replace(/::/g, ".") : `Ref${refIndex}`;
+            if (!(name in defs)) {
+                // Register before converting so recursive references resolve to the same definition
+                defs[name] = {};
+                const target = schema.typespace.types[refIndex] as AlgebraicType | undefined;
+                defs[name] = target ? convert(target) : {};
+            }
+            return { $ref: `#/$defs/${name}` };
+        }
+        case "Product": {
+            const product = typeValue as { elements: AlgebraicTypeElement[] };
+            const special = specialTypeName(product);
+            if (special) {
+                return { type: ["string", "integer"], description: `${special} (hex string or number)` };
+            }
+            return productSchema(product.elements, convert);
+        }
+        case "Sum": {
+            const sum = typeValue as { variants: AlgebraicTypeElement[] };
+            const inner = optionInner(sum);
+            if (inner) return optionSchema(convert(inner));
+            return {
+                oneOf: sum.variants.map((variant) => {
+                    const name = variant.name.some ?? "";
+                    return {
+                        type: "object",
+                        properties: { [name]: isUnit(variant.algebraic_type) ? { type: "array", maxItems: 0 } : convert(variant.algebraic_type) },
+                        required: [name],
+                        additionalProperties: false,
+                    };
+                }),
+            };
+        }
+        default:
+            return {};
+    }
+}
+
+function productSchema(elements: AlgebraicTypeElement[], convert: (type: AlgebraicType) => JsonSchema): JsonSchema {
+    const named = elements.filter((element) => element.name.some);
+    return {
+        type: "object",
+        properties: Object.fromEntries(named.map((element) => [element.name.some, convert(element.algebraic_type)])),
+        required: named.map((element) => element.name.some),
+        additionalProperties: false,
+    };
+}
+
+function optionSchema(inner: JsonSchema): JsonSchema {
+    return {
+        oneOf: [
+            { type: "object", properties: { some: inner }, required: ["some"], additionalProperties: false },
+            { type: "object", properties: { none: { type: "array", maxItems: 0 } }, required: ["none"], additionalProperties: false },
+        ],
+    };
+}
+
+function isUnit(type: AlgebraicType): boolean {
+    const product = (type as { Product?: { elements: AlgebraicTypeElement[] } }).Product;
+    return Boolean(product && product.elements.length === 0);
+}
+
+function qualifiedName(typeDef: RawSchema["types"][number]): string {
+    return [...typeDef.name.scope.map(String), typeDef.name.name].join("::");
+}
+
+function pascalCase(name: string): string {
+    return name
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((part) => part[0].toUpperCase() + part.slice(1))
+        .join("");
+}
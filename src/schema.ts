@@ -0,0 +1,265 @@
+import {
+    AlgebraicType,
+    AlgebraicTypeElement,
+    ParsedParam,
+    ParsedReducer,
+    ParsedTable,
+    RawSchema,
+} from "./types.js";
+
+export function formatSchema(schema: RawSchema): string {
+    if (!schema?.tables || !schema?.reducers || !schema?.typespace) {
+        return "Invalid or empty schema";
+    }
+
+    try {
+        const tables = parseTables(schema);
+        const reducers = parseReducers(schema);
+
+        let output = `Database Schema\n${"=".repeat(50)}\n\n`;
+
+        // Tables section
+        output += `TABLES (${tables.length}):\n`;
+        if (tables.length === 0) {
+            output += "  (none)\n";
+        } else {
+            for (const table of tables) {
+                output += `\n• ${table.name}\n`;
+                for (const col of table.columns) {
+                    output += `    ${col.name}: ${col.fullType}\n`;
+                }
+            }
+        }
+
+        output += `\n`;
+
+        // Reducers section
+        output += `REDUCERS (${reducers.length}):\n`;
+        if (reducers.length === 0) {
+            output += "  (none)\n";
+        } else {
+            for (const reducer of reducers) {
+                const lifecycleTag = reducer.lifecycle ? ` [${reducer.lifecycle}]` : "";
+                output += `\n• ${reducer.name}${lifecycleTag}\n`;
+                if (reducer.params.length > 0) {
+                    for (const param of reducer.params) {
+                        output += `    ${param.name}: ${param.fullType}\n`;
+                    }
+                } else {
+                    output += `    (no parameters)\n`;
+                }
+            }
+        }
+
+        output += `\n`;
+
+        // Types section
+        output += formatTypeDefs(schema);
+
+        return output;
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        return `Error formatting schema: ${message}\n\nRaw: ${JSON.stringify(schema, null, 2)}`;
+    }
+}
+
+export function parseTables(schema: RawSchema): ParsedTable[] {
+    const tables: ParsedTable[] = [];
+
+    for (const table of schema.tables) {
+        const elements = tableRowElements(schema, table);
+        if (!elements) continue;
+
+        const columns: ParsedParam[] = elements.map((elem) =>
+            parseAlgebraicType(schema, elem)
+        );
+
+        tables.push({ name: table.name, columns });
+    }
+
+    return tables;
+}
+
+export function tableRowElements(schema: RawSchema, table: RawSchema["tables"][number]): AlgebraicTypeElement[] | null {
+    const typeDef = schema.types[table.product_type_ref];
+    if (!typeDef) return null;
+
+    const typeData = schema.typespace.types[typeDef.ty];
+    return typeData?.Product?.elements ?? null;
+}
+
+export function parseReducers(schema: RawSchema): ParsedReducer[] {
+    return schema.reducers.map((reducer) => {
+        let lifecycle: ParsedReducer["lifecycle"] = null;
+        if (reducer.lifecycle.some) {
+            const keys = Object.keys(reducer.lifecycle.some);
+            if (keys.length > 0) {
+                lifecycle = keys[0] as ParsedReducer["lifecycle"];
+            }
+        }
+
+        const params = reducer.params.elements.map((elem) =>
+            parseAlgebraicType(schema, elem)
+        );
+
+        return { name: reducer.name, params, lifecycle };
+    });
+}
+
+function parseAlgebraicType(schema: RawSchema, element: AlgebraicTypeElement): ParsedParam {
+    const name = element.name.some ?? "(unnamed)";
+    const fullType = resolveType(schema, element.algebraic_type);
+
+    return {
+        name,
+        type: baseTypeName(schema, element.algebraic_type, fullType),
+        fullType,
+    };
+}
+
+function baseTypeName(schema: RawSchema, algebraicType: AlgebraicType, fullType: string): string {
+    const [typeKey, typeValue] = Object.entries(algebraicType)[0] ?? [];
+    if (typeKey === "Product") {
+        return specialTypeName(typeValue as { elements: AlgebraicTypeElement[] }) ?? "Product";
+    }
+    if (typeKey === "Sum") {
+        return optionInner(typeValue as { variants: AlgebraicTypeElement[] }) ? "Option" : "Enum";
+    }
+    return fullType.split("<")[0];
+}
+
+export function formatTypeDefs(schema: RawSchema): string {
+    let output = `TYPES (${schema.types.length}):\n`;
+    if (schema.types.length === 0) {
+        return output + "  (none)\n";
+    }
+
+    for (const typeDef of schema.types) {
+        const name = [...typeDef.name.scope.map(String), typeDef.name.name].join("::");
+        const definition = schema.typespace.types[typeDef.ty] as AlgebraicType | undefined;
+        const expanding = new Set([typeDef.ty]);
+
+        if (definition && "Product" in definition && definition.Product) {
+            output += `\n• struct ${name}\n`;
+            const elements = definition.Product.elements;
+            if (elements.length === 0) {
+                output += "    (no fields)\n";
+            }
+            for (const element of elements) {
+                output += `    ${element.name.some ?? "(unnamed)"}: ${resolveType(schema, element.algebraic_type, expanding)}\n`;
+            }
+        } else if (definition && "Sum" in definition && definition.Sum) {
+            output += `\n• enum ${name}\n`;
+            for (const variant of definition.Sum.variants) {
+                output += `    ${formatVariant(schema, variant, expanding)}\n`;
+            }
+        } else {
+            const resolved = definition ? resolveType(schema, definition, expanding) : `Ref(${typeDef.ty})`;
+            output += `\n• type ${name} = ${resolved}\n`;
+        }
+    }
+
+    return output;
+}
+
+function formatVariant(schema: RawSchema, variant: AlgebraicTypeElement, expanding: Set<number>): string {
+    const name = variant.name.some ?? "(unnamed)";
+    const payload = variant.algebraic_type as { Product?: { elements: AlgebraicTypeElement[] } };
+    if (payload.Product && payload.Product.elements.length === 0) {
+        return name;
+    }
+    return `${name}(${resolveType(schema, variant.algebraic_type, expanding)})`;
+}
+
+export function specialTypeName(product: { elements: AlgebraicTypeElement[] }): string | null {
+    if (product.elements.length !== 1) return null;
+    const specialNames: Record<string, string> = {
+        __identity__: "Identity",
+        __connection_id__: "ConnectionId",
+        __timestamp_micros_since_unix_epoch__: "Timestamp",
+        __time_duration_micros__: "TimeDuration",
+    };
+    return specialNames[product.elements[0].name.some ?? ""] ?? null;
+}
+
+export function optionInner(sum: { variants: AlgebraicTypeElement[] }): AlgebraicType | null {
+    // Modules encode Option<T> as a sum of `some(T)` and `none`
+    const [first, second] = sum.variants;
+    if (sum.variants.length === 2 && first.name.some === "some" && second.name.some === "none") {
+        return first.algebraic_type;
+    }
+    return null;
+}
+
+export function resolveType(schema: RawSchema, algebraicType: AlgebraicType, expanding: Set<number> = new Set()): string {
+    const entries = Object.entries(algebraicType);
+    if (entries.length === 0) return "Unknown";
+
+    const [typeKey, typeValue] = entries[0];
+
+    // Primitive types
+    const primitives: string[] = [
+        "I8", "U8", "I16", "U16", "I32", "U32", "F32",
+        "I64", "U64", "F64", "I128", "U128", "I256", "U256", "Bool", "String",
+    ];
+    if (primitives.includes(typeKey)) {
+        return typeKey;
+    }
+
+    // Array type
+    if (typeKey === "Array") {
+        const innerType = resolveType(schema, typeValue as AlgebraicType, expanding);
+        return `Array<${innerType}>`;
+    }
+
+    // Ref type: named types print their name, anonymous ones are expanded in place
+    if (typeKey === "Ref") {
+        const refIndex = typeValue as number;
+        const refTypeDef = schema.types.find((typeDef) => typeDef.ty === refIndex);
+        if (refTypeDef?.name?.name) {
+            return refTypeDef.name.name;
+        }
+        const target = schema.typespace.types[refIndex] as AlgebraicType | undefined;
+        if (!target || expanding.has(refIndex)) {
+            return `Ref(${refIndex})`;
+        }
+        return resolveType(schema, target, new Set([...expanding, refIndex]));
+    }
+
+    // Product type (struct)
+    if (typeKey === "Product") {
+        const product = typeValue as { elements: AlgebraicTypeElement[] };
+        const special = specialTypeName(product);
+        if (special) {
+            return special;
+        }
+        if (product.elements.length === 0) {
+            return "{}";
+        }
+        const fields = product.elements.map(
+            (element) => `${element.name.some ?? "_"}: ${resolveType(schema, element.algebraic_type, expanding)}`
+        );
+        return `{ ${fields.join(", ")} }`;
+    }
+
+    // Sum type (enum)
+    if (typeKey === "Sum") {
+        const sum = typeValue as { variants: AlgebraicTypeElement[] };
+        const inner = optionInner(sum);
+        if (inner) {
+            return `Option<${resolveType(schema, inner, expanding)}>`;
+        }
+        if (sum.variants.length === 0) {
+            return "enum {}";
+        }
+        return `enum { ${sum.variants.map((variant) => formatVariant(schema, variant, expanding)).join(", ")} }`;
+    }
+
+    // Option type
+    if (typeKey === "Option") {
+        const innerType = resolveType(schema, typeValue as AlgebraicType, expanding);
+        return `Option<${innerType}>`;
+    }
+
+    return typeKey;
+}
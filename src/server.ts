@@ -3,14 +3,55 @@ import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
     ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
     ErrorCode,
     McpError,
+    ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
 import { execFile } from "node:child_process";
+import { isAbsolute, relative, resolve, sep } from "node:path";
 import { promisify } from "node:util";
 import { SpacetimeClient, SpacetimeClientConfig } from "./client.js";
-import { ToolResult } from "./types.js";
+import { SubscriptionManager } from "./subscriptions.js";
+import { ResourceWatcher, WatchTarget } from "./resource-watcher.js";
+import { ConfirmationStore } from "./confirmations.js";
+import { ENV_SERVER_NAME, ServerProfile, ServerProfiles } from "./profiles.js";
+import { checkToolCall, isDatabaseAllowed, isReducerAllowed, isToolAllowed, PolicyConfig } from "./policy.js";
+import { LogQueryOptions, ParsedTable, RawSchema, ToolResult } from "./types.js";
+import { validateReducerArgs } from "./validation.js";
+import { parseTables } from "./schema.js";
+import { isSqlStatementResult } from "./sql-results.js";
+import { formatLintIssues, isPlainIdentifier, lintSql, SqlLintResult } from "./sql-lint.js";
+import { diffSchemas, loadSchemaSnapshot, migrationBlockers, saveSchemaSnapshot } from "./schema-diff.js";
+import { EXPORT_FORMATS, ExportFormat, exportableRows, exportRows, formatFromPath, truncateSqlResult } from "./sql-export.js";
+import { diffFileSnapshots, snapshotFiles } from "./bindings.js";
+import { describeModule, findBuiltModule } from "./module-schema.js";
+import { Diagnostic, formatDiagnostics, parseDiagnostics } from "./diagnostics.js";
+import { LANGUAGES, parseLanguage } from "./languages.js";
+import {
+    describeStep,
+    Fixture,
+    FixtureStep,
+    loadFixture,
+    positionalArgs,
+    ReducerArgs,
+    substituteSqlVariables,
+    substituteVariables,
+} from "./fixtures.js";
+import {
+    columnsWithUnsafeIntegers,
+    columnsWithoutSqlLiterals,
+    isConflictError,
+    readDatabaseSnapshot,
+    rowsInColumnOrder,
+    sqlInsertStatement,
+    TableSnapshot,
+    writeDatabaseSnapshot,
+} from "./database-snapshot.js";
+import { reducerInputSchema, reducerParamName, SCHEMA_FORMATS, SchemaFormat } from "./schema-formats.js";
 
 const execFileAsync = promisify(execFile) as (
     command: string,
@@ -20,14 +61,27 @@ const execFileAsync = promisify(execFile) as (
 
 export interface ServerConfig extends SpacetimeClientConfig {
     defaultDatabase: string;
+    identity?: string;
+    policy?: PolicyConfig;
+    reducerTools?: boolean;
+    serverName?: string;
+    servers?: Record<string, ServerProfile>;
+    credentialSource?: string;
+    // Registers a listener for rebuilt server profiles and returns a function that removes it
+    watchServers?: (listener: (profiles: ServerProfiles) => void) => () => void;
+    exportDir?: string;
 }
 
 export interface SpacetimeClientLike {
     testConnection(): Promise<ToolResult>;
-    getSchema(database: string): Promise<ToolResult>;
-    runSql(database: string, query: string): Promise<ToolResult>;
+    getSchema(database: string, format?: SchemaFormat, refresh?: boolean): Promise<ToolResult>;
+    getTables(database: string, refresh?: boolean): Promise<ToolResult>;
+    getRawSchema(database: string, refresh?: boolean): Promise<ToolResult>;
+    invalidateSchema(database?: string): void;
+    runSql(database: string, query: string, raw?: boolean): Promise<ToolResult>;
     callReducer(database: string, reducer: string, args: unknown[]): Promise<ToolResult>;
-    getLogs(database: string, lineCount?: number): Promise<ToolResult>;
+    getLogs(database: string, lineCount?: number, options?: LogQueryOptions): Promise<ToolResult>;
+    tailLogs(database: string, cursor?: string, lineCount?: number): Promise<ToolResult>;
     describeDatabase(database: string): Promise<ToolResult>;
     getDatabaseIdentity(database: string): Promise<ToolResult>;
     deleteDatabase(database: string): Promise<ToolResult>;
@@ -36,17 +90,144 @@ export interface SpacetimeClientLike {
     getDatabaseAliases(identity: string): Promise<ToolResult>;
 }
 
+// Per-table outcome of `import_database`
+interface TableImport {
+    table: string;
+    method: "sql" | "reducer";
+    reducer?: string;
+    rows: number;
+    inserted: number;
+    conflicts: number;
+    failed: number;
+    skipped?: string;
+    errors: { row: number; conflict: boolean; error: string }[];
+}
+
+interface BatchCall {
+    "#": number;
+    reducer: string;
+    status: "ok" | "failed" | "skipped";
+    http: number | null;
+    ms: number | null;
+    error: string | null;
+}
+
+const MAX_BATCH_CONCURRENCY = 16;
+
+interface SeedStepReport {
+    step: number;
+    name: string;
+    status: "passed" | "failed";
+    calls?: number;
+    saved?: Record<string, unknown>;
+    error?: string;
+    errors?: { row: number; error: string }[];
+}
+
+// Failed rows listed per table or fixture step; the counts cover the rest
+const MAX_LISTED_ERRORS = 10;
+
+export interface SubscriptionManagerLike {
+    subscribe(database: string, queries: string[], onChange?: () => void): Promise<ToolResult>;
+    poll(id: string, maxEvents?: number): ToolResult;
+    unsubscribe(id: string): ToolResult;
+}
+
+// Tools addressed by identity rather than by database name
+const IDENTITY_TOOLS = new Set(["list_databases", "add_database_alias", "get_database_aliases"]);
+
+// Tools that do not talk to a server and take no `server` argument
+const UNSCOPED_TOOLS = new Set(["list_servers", "generate_bindings", "build_module", "init_module"]);
+
+const REDUCER_TOOL_PREFIX = "reducer__";
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: { type: "object"; properties?: Record<string, unknown>; required?: string[]; [key: string]: unknown };
+}
+
+export interface ResourceWatcherLike {
+    watch(target: WatchTarget): Promise<ToolResult>;
+    unwatch(uri: string): void;
+}
+
+// A named SpacetimeDB host that database-scoped tools can target with `server`
+export interface ServerContext {
+    dbClient: SpacetimeClientLike;
+    defaultDatabase: string;
+    host: string;
+    subscriptions?: SubscriptionManagerLike;
+    credentialSource?: string;
+}
+
 export interface HandlerDependencies {
     dbClient: SpacetimeClientLike;
     defaultDatabase: string;
     host: string;
+    identity?: string;
+    subscriptions?: SubscriptionManagerLike;
+    serverName?: string;
+    servers?: Record<string, ServerContext>;
+    credentialSource?: string;
+    resourceWatcher?: ResourceWatcherLike;
+    policy?: PolicyConfig;
+    confirmations?: ConfirmationStore;
+    reducerTools?: boolean;
+    // Directory that sql_query, diff_schema and export_database may write to; unset disables writing
+    exportDir?: string;
+    onToolsChanged?: () => void;
     publishCommandRunner?: (args: { command: string; args: string[]; cwd?: string }) => Promise<{ stdout: string; stderr: string }>;
+    // Reads the schema of the module `spacetime build` produced for a project
+    moduleSchemaReader?: (projectPath: string) => Promise<RawSchema>;
 }
 
-export function createHandlers({ dbClient, defaultDatabase, host, publishCommandRunner }: HandlerDependencies) {
+export function createHandlers({
+    dbClient,
+    defaultDatabase,
+    host,
+    identity,
+    subscriptions,
+    serverName = ENV_SERVER_NAME,
+    servers = {},
+    credentialSource,
+    resourceWatcher,
+    policy,
+    confirmations = new ConfirmationStore(),
+    reducerTools = false,
+    exportDir,
+    onToolsChanged,
+    publishCommandRunner,
+    moduleSchemaReader,
+}: HandlerDependencies) {
     const runPublishCommand = publishCommandRunner ?? (async ({ command, args, cwd }) => {
         return execFileAsync(command, args, { cwd });
     });
+    const readModuleSchema = moduleSchemaReader ?? (async (projectPath: string) => describeModule(await findBuiltModule(projectPath)));
+    let defaultServer: ServerContext = { dbClient, defaultDatabase, host, subscriptions, credentialSource };
+    let serverNames = [serverName, ...Object.keys(servers).filter((name) => name !== serverName)];
+
+    /**
+     * Switches to new server profiles, e.g. after the spacetime CLI config changed. Calls that are
+     * already running finish on the server they started with.
+     */
+    function setServers(next: { serverName: string; defaultServer: ServerContext; identity?: string; servers: Record<string, ServerContext> }) {
+        ({ dbClient, defaultDatabase, host, subscriptions, credentialSource } = next.defaultServer);
+        defaultServer = next.defaultServer;
+        identity = next.identity;
+        serverName = next.serverName;
+        servers = next.servers;
+        serverNames = [serverName, ...Object.keys(servers).filter((name) => name !== serverName)];
+        onToolsChanged?.();
+    }
+
+    function resolveServer(name: unknown): ServerContext | null {
+        if (name === undefined || name === "" || name === serverName) {
+            return defaultServer;
+        }
+        return typeof name === "string" && Object.hasOwn(servers, name) ? servers[name] : null;
+    }
+
     function formatToolResult(result: ToolResult): { content: { type: "text"; text: string }[]; isError?: boolean } {
         if (result.success) {
             const text = typeof result.data === "string" ? result.data : JSON.stringify(result.data, null, 2);
@@ -58,7 +239,40 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
         };
     }
 
+    /**
+     * Resolves a path argument of a tool that reads or writes files. Relative paths start at the export
+     * directory, and paths that leave it are refused.
+     */
+    function resolveExportPath(argument: string, path: string): ToolResult {
+        if (!exportDir) {
+            return { success: false, error: `${argument} is disabled. Set SPACETIMEDB_EXPORT_DIR to the directory files may be read from and written to.` };
+        }
+        const root = resolve(exportDir);
+        const target = resolve(root, path);
+        const inside = relative(root, target);
+        if (inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+            return { success: false, error: `${argument} must be inside the export directory ${root}` };
+        }
+        return { success: true, data: target };
+    }
+
     function formatSqlMarkdown(data: unknown): string {
+        if (Array.isArray(data) && data.length > 0 && data.every(isSqlStatementResult)) {
+            const sections = data.map((statement, i) => {
+                const duration = statement.total_duration_micros;
+                const summary = `${statement.rows.length} row(s)${duration !== undefined ? ` in ${duration} µs` : ""}`;
+                const table = statement.columns.length > 0 ? formatMarkdownTable(statement.columns, statement.rows) : "";
+                return data.length > 1
+                    ? [`**Statement ${i + 1}** (${summary})`, table].filter(Boolean).join("\n\n")
+                    : [table, `_${summary}_`].filter(Boolean).join("\n\n");
+            });
+            if (data.length > 1) {
+                const total = data.reduce((sum, statement) => sum + (statement.total_duration_micros ?? 0), 0);
+                sections.push(`_Total: ${total} µs_`);
+            }
+            return sections.join("\n\n");
+        }
+
         if (!Array.isArray(data)) {
             return typeof data === "string" ? data : JSON.stringify(data, null, 2);
         }
@@ -77,10 +291,13 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
             return JSON.stringify(data, null, 2);
         }
 
+        return formatMarkdownTable(headers, data as Record<string, unknown>[]);
+    }
+
+    function formatMarkdownTable(headers: string[], rows: Record<string, unknown>[]): string {
         const headerLine = `| ${headers.join(" | ")} |`;
         const separatorLine = `| ${headers.map(() => "---").join(" | ")} |`;
-        const rows = data.map((row) => {
-            const record = row as Record<string, unknown>;
+        const lines = rows.map((record) => {
             const cells = headers.map((header) => {
                 const value = record[header];
                 if (value === null || value === undefined) return "";
@@ -90,22 +307,195 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
             return `| ${cells.join(" | ")} |`;
         });
 
-        return [headerLine, separatorLine, ...rows].join("\n");
+        return [headerLine, separatorLine, ...lines].join("\n");
+    }
+
+    function extractCount(data: unknown): number | null {
+        // SQL results arrive either as statement results with positional rows or as plain row objects
+        const first = Array.isArray(data) ? data[0] : data;
+        if (!first || typeof first !== "object") return null;
+        const statement = first as { rows?: unknown[] };
+        const row = Array.isArray(statement.rows) ? statement.rows[0] : first;
+        const value = Array.isArray(row) ? row[0] : row && typeof row === "object" ? Object.values(row)[0] : row;
+        const count = Number(value);
+        return Number.isFinite(count) ? count : null;
+    }
+
+    async function buildDestructivePreview(client: SpacetimeClientLike, database: string) {
+        const identityResult = await client.getDatabaseIdentity(database);
+        let databaseIdentity: string | null = null;
+        if (identityResult.success) {
+            const data = identityResult.data as string | { identity?: string };
+            databaseIdentity = typeof data === "string" ? data.trim() : data?.identity ?? null;
+        }
+
+        const tables: { name: string; rows: number | null }[] = [];
+        const tablesResult = await client.getTables(database);
+        if (tablesResult.success) {
+            for (const table of tablesResult.data as ParsedTable[]) {
+                if (!isPlainIdentifier(table.name)) {
+                    tables.push({ name: table.name, rows: null });
+                    continue;
+                }
+                const countResult = await client.runSql(database, `SELECT COUNT(*) AS count FROM ${table.name}`);
+                tables.push({ name: table.name, rows: countResult.success ? extractCount(countResult.data) : null });
+            }
+        }
+
+        let aliases: string[] = [];
+        if (databaseIdentity) {
+            const aliasResult = await client.getDatabaseAliases(databaseIdentity);
+            const names = (aliasResult.data as { names?: unknown } | undefined)?.names;
+            if (aliasResult.success && Array.isArray(names)) {
+                aliases = names.map(String);
+            }
+        }
+
+        return { database, identity: databaseIdentity, tables, aliases };
+    }
+
+    async function previewDestructive(client: SpacetimeClientLike, operation: string, key: string, database: string) {
+        const preview = await buildDestructivePreview(client, database);
+        const confirmToken = confirmations.issue(key);
+        const text = JSON.stringify(
+            {
+                operation,
+                ...preview,
+                confirm_token: confirmToken,
+                expires_in_seconds: confirmations.ttlSeconds,
+                message: "Nothing has been changed yet. Repeat the same call with confirm_token to proceed.",
+            },
+            null,
+            2
+        );
+        return { content: [{ type: "text", text }] };
+    }
+
+    async function discoverDatabases(): Promise<string[]> {
+        const databases = new Set<string>();
+        if (defaultDatabase) {
+            databases.add(defaultDatabase);
+        }
+
+        if (identity) {
+            const result = await dbClient.listDatabases(identity);
+            if (result.success && result.data && typeof result.data === "object") {
+                // Older hosts return `addresses`, newer ones return `identities`
+                const data = result.data as { addresses?: unknown; identities?: unknown };
+                const entries = Array.isArray(data.identities) ? data.identities : data.addresses;
+                if (Array.isArray(entries)) {
+                    for (const entry of entries) {
+                        if (typeof entry === "string" && entry) {
+                            databases.add(entry);
+                        }
+                    }
+                }
+            }
+        }
+
+        return [...databases].filter((database) => isDatabaseAllowed(policy, database));
+    }
+
+    function invalidConfirmation() {
+        return {
+            content: [{ type: "text", text: "Error: Invalid or expired confirm_token. Call again without confirm_token to get a new preview." }],
+            isError: true,
+        };
     }
 
     const listResources = async () => {
-        return { resources: [] };
+        const resources: { uri: string; name: string; description: string; mimeType: string }[] = [];
+
+        for (const database of await discoverDatabases()) {
+            resources.push(
+                {
+                    uri: `spacetimedb://${database}/schema`,
+                    name: `${database} schema`,
+                    description: `Tables and reducers of ${database}`,
+                    mimeType: "text/plain",
+                },
+                {
+                    uri: `spacetimedb://${database}/logs`,
+                    name: `${database} logs`,
+                    description: `Recent log lines of ${database}`,
+                    mimeType: "text/plain",
+                }
+            );
+
+            const tablesResult = await dbClient.getTables(database);
+            if (!tablesResult.success) continue;
+
+            for (const table of tablesResult.data as ParsedTable[]) {
+                resources.push({
+                    uri: `spacetimedb://${database}/tables/${encodeURIComponent(table.name)}`,
+                    name: `${database}.${table.name}`,
+                    description: `Rows of table ${table.name} (${table.columns.map((col) => col.name).join(", ")})`,
+                    mimeType: "application/json",
+                });
+            }
+        }
+
+        return { resources };
     };
 
-    const readResource = async (request: { params: { uri: string } }) => {
-        const uri = new URL(request.params.uri);
+    const listResourceTemplates = async () => {
+        return {
+            resourceTemplates: [
+                {
+                    uriTemplate: "spacetimedb://{database}/schema",
+                    name: "Database schema",
+                    description: "Tables and reducers of a database",
+                    mimeType: "text/plain",
+                },
+                {
+                    uriTemplate: "spacetimedb://{database}/logs",
+                    name: "Database logs",
+                    description: "Recent log lines of a database",
+                    mimeType: "text/plain",
+                },
+                {
+                    uriTemplate: "spacetimedb://{database}/tables/{table}",
+                    name: "Table rows",
+                    description: "All rows of a table",
+                    mimeType: "application/json",
+                },
+            ],
+        };
+    };
+
+    function parseResourceUri(rawUri: string) {
+        const uri = new URL(rawUri);
         const database = uri.hostname || defaultDatabase;
-        const resourceType = uri.pathname.split("/").filter(Boolean)[0];
+        const [resourceType, resourceName] = uri.pathname.split("/").filter(Boolean);
 
         if (!database) {
             throw new McpError(ErrorCode.InvalidRequest, "No database specified in URI");
         }
 
+        if (!isDatabaseAllowed(policy, database)) {
+            throw new McpError(ErrorCode.InvalidRequest, `Blocked by policy: Database "${database}" is not allowed`);
+        }
+
+        return { database, resourceType, resourceName };
+    }
+
+    // The table name ends up in SQL, so only a table the schema knows is accepted
+    async function resolveResourceTable(database: string, resourceName: string): Promise<string> {
+        const table = decodeURIComponent(resourceName);
+        const tablesResult = await dbClient.getTables(database);
+        if (!tablesResult.success) {
+            throw new McpError(ErrorCode.InternalError, `Failed to list tables of ${database}: ${tablesResult.error}`);
+        }
+        const known = (tablesResult.data as ParsedTable[]).some((candidate) => candidate.name === table);
+        if (!known || !isPlainIdentifier(table)) {
+            throw new McpError(ErrorCode.InvalidRequest, `Unknown table "${table}" in ${database}`);
+        }
+        return table;
+    }
+
+    const readResource = async (request: { params: { uri: string } }) => {
+        const { database, resourceType, resourceName } = parseResourceUri(request.params.uri);
+
         if (resourceType === "logs") {
             const result = await dbClient.getLogs(database, 100);
             const text = result.success
@@ -126,38 +516,674 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
             };
         }
 
+        if (resourceType === "tables" && resourceName) {
+            const table = await resolveResourceTable(database, resourceName);
+            const result = await dbClient.runSql(database, `SELECT * FROM ${table}`);
+            const text = result.success
+                ? JSON.stringify(result.data, null, 2)
+                : `Error: ${result.error}`;
+            return {
+                contents: [{ uri: request.params.uri, mimeType: "application/json", text }],
+            };
+        }
+
         throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${request.params.uri}`);
     };
 
+    const subscribeResource = async (request: { params: { uri: string } }) => {
+        if (!resourceWatcher) {
+            throw new McpError(ErrorCode.InvalidRequest, "Resource subscriptions are not available");
+        }
+
+        const { database, resourceType, resourceName } = parseResourceUri(request.params.uri);
+        let target: WatchTarget;
+        if (resourceType === "logs") {
+            target = { uri: request.params.uri, database, kind: "logs" };
+        } else if (resourceType === "tables" && resourceName) {
+            target = { uri: request.params.uri, database, kind: "table", table: await resolveResourceTable(database, resourceName) };
+        } else {
+            throw new McpError(ErrorCode.InvalidRequest, `Resource does not support subscriptions: ${request.params.uri}`);
+        }
+
+        const result = await resourceWatcher.watch(target);
+        if (!result.success) {
+            throw new McpError(ErrorCode.InternalError, `Failed to subscribe to ${request.params.uri}: ${result.error}`);
+        }
+        return {};
+    };
+
+    const unsubscribeResource = async (request: { params: { uri: string } }) => {
+        resourceWatcher?.unwatch(request.params.uri);
+        return {};
+    };
+
+    async function buildReducerTools(): Promise<ToolDefinition[]> {
+        const schemaResult = await dbClient.getRawSchema(defaultDatabase);
+        const schema = schemaResult.data as RawSchema | undefined;
+        if (!schemaResult.success || !Array.isArray(schema?.reducers)) {
+            return [];
+        }
+
+        return schema.reducers
+            .filter((reducer) => !reducer.lifecycle.some && isReducerAllowed(policy, reducer.name))
+            .map((reducer) => {
+                const params = reducer.params.elements.map((element, i) => reducerParamName(element, i));
+                return {
+                    name: `${REDUCER_TOOL_PREFIX}${reducer.name}`,
+                    description: `Call the ${reducer.name} reducer on ${defaultDatabase}. Parameters: ${params.join(", ") || "none"}.`,
+                    inputSchema: reducerInputSchema(schema, reducer) as ToolDefinition["inputSchema"],
+                };
+            });
+    }
+
+    async function invokeReducer(
+        client: SpacetimeClientLike,
+        database: string,
+        reducer: string,
+        reducerArgs: unknown[],
+        preloaded?: RawSchema
+    ) {
+        // Validation is best effort: if the schema can't be fetched, let the server judge the call
+        const schema = preloaded ?? await loadReducerSchema(client, database, [reducer]);
+        if (Array.isArray(schema?.reducers)) {
+            const reducerDef = schema.reducers.find((candidate) => candidate.name === reducer);
+            if (!reducerDef) {
+                const available = schema.reducers.map((candidate) => candidate.name).join(", ");
+                return {
+                    content: [{ type: "text", text: `Error: Reducer "${reducer}" not found. Available reducers: ${available}` }],
+                    isError: true,
+                };
+            }
+            const errors = validateReducerArgs(schema, reducerDef, reducerArgs);
+            if (errors.length > 0) {
+                return {
+                    content: [{ type: "text", text: `Error: Invalid arguments for ${reducer}:\n${errors.map((e) => `- ${e}`).join("\n")}` }],
+                    isError: true,
+                };
+            }
+        }
+        const result = await client.callReducer(database, reducer, reducerArgs);
+        return formatToolResult(result);
+    }
+
+    // A reducer added by a publish outside this server is missing from the cached schema until it
+    // expires, so the schema is refetched before any of the named reducers is reported as not found
+    async function loadReducerSchema(
+        client: SpacetimeClientLike,
+        database: string,
+        reducers: string[]
+    ): Promise<RawSchema | undefined> {
+        let schema: RawSchema | undefined;
+        for (const refresh of [false, true]) {
+            const schemaResult = await client.getRawSchema(database, refresh);
+            schema = schemaResult.success && Array.isArray((schemaResult.data as RawSchema)?.reducers)
+                ? (schemaResult.data as RawSchema)
+                : undefined;
+            if (!schema || reducers.every((name) => schema?.reducers.some((candidate) => candidate.name === name))) {
+                break;
+            }
+        }
+        return schema;
+    }
+
+    async function callGeneratedReducerTool(name: string, safeArgs: Record<string, unknown>) {
+        const reducer = name.slice(REDUCER_TOOL_PREFIX.length);
+        if (!reducerTools || !defaultDatabase) {
+            throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+        }
+
+        const violation = checkToolCall(policy, "call_reducer", defaultDatabase, { reducer });
+        if (violation) {
+            return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+        }
+
+        const schemaResult = await dbClient.getRawSchema(defaultDatabase);
+        const schema = schemaResult.data as RawSchema | undefined;
+        if (!schemaResult.success || !Array.isArray(schema?.reducers)) {
+            return { content: [{ type: "text", text: `Error: Failed to load schema: ${schemaResult.error}` }], isError: true };
+        }
+
+        const reducerDef = schema.reducers.find((candidate) => candidate.name === reducer);
+        if (!reducerDef) {
+            throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${name}`);
+        }
+
+        const reducerArgs = reducerDef.params.elements.map((element, i) => safeArgs[reducerParamName(element, i)]);
+        return invokeReducer(dbClient, defaultDatabase, reducer, reducerArgs, schema);
+    }
+
+    function publishArgs(
+        server: ServerContext,
+        database: string,
+        projectPath: string,
+        options: { clearData?: boolean; allowBreaking?: boolean } = {}
+    ): string[] {
+        const args = ["publish", database, "--project-path", projectPath, "-y"];
+        if (server.host) {
+            args.push("--server", server.host);
+        }
+        if (options.clearData) {
+            args.push("--delete-data");
+        }
+        if (options.allowBreaking) {
+            args.push("--break-clients");
+        }
+        return args;
+    }
+
+    function commandErrorDetails(error: unknown): string {
+        const err = error as { stderr?: string; stdout?: string; message?: string };
+        return [err.stdout, err.stderr, err.message].map((text) => text?.trim()).filter(Boolean).join("\n");
+    }
+
+    // Shows the parsed diagnostics of a failed CLI command, or its raw output if none were recognized
+    function commandFailure(summary: string, error: unknown) {
+        const details = commandErrorDetails(error);
+        const diagnostics = parseDiagnostics(details);
+        const text = diagnostics.length > 0 ? formatDiagnostics(diagnostics) : details;
+        return { content: [{ type: "text", text: `Error: ${summary}\n${text}` }], isError: true };
+    }
+
+    /**
+     * Works out what publishing `projectPath` would change. The module is built locally and its schema
+     * read from the build, so nothing is deployed.
+     */
+    async function planPublish(server: ServerContext, database: string, projectPath: string): Promise<ToolResult> {
+        try {
+            await runPublishCommand({ command: "spacetime", args: ["build", "--project-path", projectPath], cwd: projectPath });
+        } catch (error: unknown) {
+            return { success: false, error: `Build failed. ${commandErrorDetails(error)}` };
+        }
+        let candidate: RawSchema;
+        try {
+            candidate = await readModuleSchema(projectPath);
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            return { success: false, error: `Failed to read the built module's schema: ${message}` };
+        }
+
+        const deployedResult = await server.dbClient.getRawSchema(database, true);
+        if (!deployedResult.success) {
+            if (!/^HTTP 404\b/.test(deployedResult.error ?? "")) {
+                return { success: false, error: `Failed to read the deployed schema: ${deployedResult.error}` };
+            }
+            return { success: true, data: { database, deployed: false, message: "Database is not deployed yet; publishing creates it." } };
+        }
+
+        const diff = diffSchemas(deployedResult.data as RawSchema, candidate);
+        const blockers = migrationBlockers(diff);
+        return {
+            success: true,
+            data: { database, deployed: true, migration: { automatic: blockers.length === 0, blockers }, ...diff },
+        };
+    }
+
+    async function generateBindings(args: Record<string, unknown>) {
+        const projectPath = args.project_path as string;
+        const outDir = args.out_dir as string;
+        const language = parseLanguage((args.language as string) ?? "");
+        if (!language) {
+            return {
+                content: [{ type: "text", text: `Error: Unknown language "${args.language ?? ""}". Use one of: ${LANGUAGES.join(", ")}` }],
+                isError: true,
+            };
+        }
+        if (!projectPath || !outDir) {
+            return { content: [{ type: "text", text: "Error: project_path and out_dir are required." }], isError: true };
+        }
+
+        const outPath = resolve(projectPath, outDir);
+        const before = await snapshotFiles(outPath);
+        try {
+            await runPublishCommand({
+                command: "spacetime",
+                args: ["generate", "--lang", language, "--out-dir", outPath, "--project-path", projectPath, "-y"],
+                cwd: projectPath,
+            });
+        } catch (error: unknown) {
+            return commandFailure("Generating bindings failed.", error);
+        }
+
+        const changes = diffFileSnapshots(before, await snapshotFiles(outPath));
+        return formatToolResult({ success: true, data: { language, out_dir: outPath, ...changes } });
+    }
+
+    async function buildModule(args: Record<string, unknown>) {
+        const projectPath = args.project_path as string;
+        if (!projectPath) {
+            return { content: [{ type: "text", text: "Error: No project_path provided." }], isError: true };
+        }
+
+        const buildArgs = ["build", "--project-path", projectPath];
+        if (args.debug) {
+            buildArgs.push("--debug");
+        }
+        let output: string;
+        let built = true;
+        try {
+            const { stdout, stderr } = await runPublishCommand({ command: "spacetime", args: buildArgs, cwd: projectPath });
+            output = [stdout, stderr].join("\n");
+        } catch (error: unknown) {
+            output = commandErrorDetails(error);
+            built = false;
+        }
+
+        const diagnostics = parseDiagnostics(output);
+        const count = (severity: Diagnostic["severity"]) => diagnostics.filter((diagnostic) => diagnostic.severity === severity).length;
+        const report = { project_path: projectPath, built, errors: count("error"), warnings: count("warning"), diagnostics };
+        if (!built) {
+            // Keep the raw output when nothing could be parsed from it
+            const text = JSON.stringify(diagnostics.length > 0 ? report : { ...report, output: output.trim() }, null, 2);
+            return { content: [{ type: "text", text: `Error: ${text}` }], isError: true };
+        }
+        return formatToolResult({ success: true, data: report });
+    }
+
+    async function initModule(args: Record<string, unknown>) {
+        const projectPath = args.project_path as string;
+        const language = parseLanguage((args.language as string) ?? "");
+        if (!language) {
+            return {
+                content: [{ type: "text", text: `Error: Unknown language "${args.language ?? ""}". Use one of: ${LANGUAGES.join(", ")}` }],
+                isError: true,
+            };
+        }
+        if (!projectPath) {
+            return { content: [{ type: "text", text: "Error: No project_path provided." }], isError: true };
+        }
+
+        const absolutePath = resolve(projectPath);
+        const before = await snapshotFiles(absolutePath);
+        try {
+            await runPublishCommand({ command: "spacetime", args: ["init", "--lang", language, absolutePath] });
+        } catch (error: unknown) {
+            return commandFailure("Creating the module failed.", error);
+        }
+
+        const { created } = diffFileSnapshots(before, await snapshotFiles(absolutePath));
+        return formatToolResult({ success: true, data: { language, project_path: absolutePath, files: created } });
+    }
+
+    async function exportDatabase(server: ServerContext, database: string, outDir: string): Promise<ToolResult> {
+        const schemaResult = await server.dbClient.getRawSchema(database, true);
+        if (!schemaResult.success) {
+            return schemaResult;
+        }
+        const schema = schemaResult.data as RawSchema;
+
+        // Everything is read before anything is written, so a failed export leaves no partial snapshot
+        const tables: TableSnapshot[] = [];
+        const unsafe: string[] = [];
+        const skipped: { name: string; reason: string }[] = [];
+        for (const table of parseTables(schema)) {
+            // The name goes into the query and the file name, so anything but a plain identifier is left out
+            if (!isPlainIdentifier(table.name)) {
+                skipped.push({ name: table.name, reason: "table name is not a plain identifier" });
+                continue;
+            }
+            const result = await server.dbClient.runSql(database, `SELECT * FROM ${table.name}`, true);
+            if (!result.success) {
+                return { success: false, error: `Failed to export table ${table.name}: ${result.error}` };
+            }
+            const statement = (result.data as { schema?: { elements: { name: { some?: string } }[] }; rows?: unknown[] }[])[0];
+            const columns = table.columns.map((column, i) => statement?.schema?.elements[i]?.name.some ?? column.name);
+            const rows = rowsInColumnOrder(columns, statement?.rows ?? []);
+            unsafe.push(...columnsWithUnsafeIntegers(table, columns, rows).map((column) => `${table.name}.${column}`));
+            tables.push({ table: table.name, columns, rows });
+        }
+        if (unsafe.length > 0) {
+            return {
+                success: false,
+                error: `Nothing was exported. These columns hold integers too large to export without rounding: ${unsafe.join(", ")}`,
+            };
+        }
+
+        const snapshot = await writeDatabaseSnapshot(
+            outDir,
+            { database, host: server.host, exportedAt: new Date(), skippedTables: skipped },
+            schema,
+            tables
+        );
+        return {
+            success: true,
+            data: {
+                path: snapshot.path,
+                database,
+                format_version: snapshot.manifest.format_version,
+                tables: snapshot.manifest.tables.map(({ name, rows }) => ({ name, rows })),
+                ...(skipped.length > 0 ? { skipped_tables: skipped } : {}),
+                total_rows: tables.reduce((sum, table) => sum + table.rows.length, 0),
+            },
+        };
+    }
+
+    async function importTable(
+        client: SpacetimeClientLike,
+        database: string,
+        schema: RawSchema,
+        snapshot: TableSnapshot,
+        reducer: string | undefined
+    ): Promise<TableImport> {
+        const entry: TableImport = {
+            table: snapshot.table,
+            method: reducer ? "reducer" : "sql",
+            ...(reducer ? { reducer } : {}),
+            rows: snapshot.rows.length,
+            inserted: 0,
+            conflicts: 0,
+            failed: 0,
+            errors: [],
+        };
+
+        let insertRow: (row: unknown[]) => Promise<ToolResult>;
+        if (reducer) {
+            const reducerDef = schema.reducers.find((candidate) => candidate.name === reducer);
+            if (!reducerDef) {
+                return { ...entry, skipped: `Reducer "${reducer}" not found in ${database}` };
+            }
+            if (reducerDef.params.elements.length !== snapshot.columns.length) {
+                return {
+                    ...entry,
+                    skipped: `Reducer "${reducer}" takes ${reducerDef.params.elements.length} argument(s) but rows have ${snapshot.columns.length} column(s)`,
+                };
+            }
+            insertRow = async (row) => {
+                const errors = validateReducerArgs(schema, reducerDef, row);
+                if (errors.length > 0) {
+                    return { success: false, error: errors.join("; ") };
+                }
+                return client.callReducer(database, reducer, row);
+            };
+        } else {
+            const table = parseTables(schema).find((candidate) => candidate.name === snapshot.table);
+            if (!table) {
+                return { ...entry, skipped: `Table "${snapshot.table}" does not exist in ${database}` };
+            }
+            const missing = snapshot.columns.filter((column) => !table.columns.some((candidate) => candidate.name === column));
+            if (missing.length > 0) {
+                return { ...entry, skipped: `Columns ${missing.join(", ")} do not exist in ${database}.${table.name}` };
+            }
+            const unsupported = columnsWithoutSqlLiterals(table).filter((column) => snapshot.columns.includes(column.split(":")[0]));
+            if (unsupported.length > 0) {
+                return {
+                    ...entry,
+                    skipped: `SQL INSERT cannot express ${unsupported.join(", ")}; pass an insert reducer for this table in reducers`,
+                };
+            }
+            insertRow = (row) => client.runSql(database, sqlInsertStatement(table, snapshot.columns, row));
+        }
+
+        for (const [index, row] of snapshot.rows.entries()) {
+            const result = await insertRow(row);
+            if (result.success) {
+                entry.inserted++;
+                continue;
+            }
+            const conflict = isConflictError(result.error ?? "");
+            if (conflict) entry.conflicts++;
+            else entry.failed++;
+            if (entry.errors.length < MAX_LISTED_ERRORS) {
+                entry.errors.push({ row: index, conflict, error: result.error ?? "Unknown error" });
+            }
+        }
+        return entry;
+    }
+
+    async function seedDatabase(
+        client: SpacetimeClientLike,
+        database: string,
+        fixture: Fixture,
+        options: { stopOnError: boolean; variables: Record<string, unknown> }
+    ): Promise<ToolResult> {
+        const variables = { ...fixture.variables, ...options.variables };
+        // Named arguments and validation need the schema; positional calls work without it
+        const schemaResult = await client.getRawSchema(database);
+        const schema = schemaResult.success ? (schemaResult.data as RawSchema) : undefined;
+
+        const steps: SeedStepReport[] = [];
+        for (const [index, step] of fixture.steps.entries()) {
+            const report = step.query
+                ? await runQueryStep(client, database, step, variables)
+                : await runReducerStep(client, database, schema, step, variables, options.stopOnError);
+            steps.push({ step: index + 1, name: describeStep(step), ...report });
+            if (report.status === "failed" && options.stopOnError) {
+                break;
+            }
+        }
+
+        const passed = steps.filter((step) => step.status === "passed").length;
+        return {
+            success: true,
+            data: { database, passed, failed: steps.length - passed, not_run: fixture.steps.length - steps.length, steps },
+        };
+    }
+
+    async function runQueryStep(
+        client: SpacetimeClientLike,
+        database: string,
+        step: FixtureStep,
+        variables: Record<string, unknown>
+    ): Promise<Omit<SeedStepReport, "step" | "name">> {
+        let query: string;
+        try {
+            query = substituteSqlVariables(step.query as string, variables);
+        } catch (error: unknown) {
+            return { status: "failed", error: error instanceof Error ? error.message : "Unknown error" };
+        }
+        const violation = checkToolCall(policy, "sql_query", database, { query });
+        if (violation) {
+            return { status: "failed", error: `Blocked by policy: ${violation}` };
+        }
+        const result = await client.runSql(database, query);
+        if (!result.success) {
+            return { status: "failed", error: result.error };
+        }
+        if (!step.save) {
+            return { status: "passed" };
+        }
+
+        const statements = Array.isArray(result.data) ? result.data.filter(isSqlStatementResult) : [];
+        const row = statements.find((statement) => statement.rows.length > 0)?.rows[0];
+        if (!row) {
+            return { status: "failed", error: "Query returned no rows to save" };
+        }
+        const saved: Record<string, unknown> = {};
+        for (const [variable, column] of Object.entries(step.save)) {
+            if (!Object.hasOwn(row, column)) {
+                return { status: "failed", error: `Column "${column}" is not in the result. Columns: ${Object.keys(row).join(", ")}` };
+            }
+            saved[variable] = row[column];
+        }
+        Object.assign(variables, saved);
+        return { status: "passed", saved };
+    }
+
+    async function runReducerStep(
+        client: SpacetimeClientLike,
+        database: string,
+        schema: RawSchema | undefined,
+        step: FixtureStep,
+        variables: Record<string, unknown>,
+        stopOnError: boolean
+    ): Promise<Omit<SeedStepReport, "step" | "name">> {
+        const reducer = step.reducer as string;
+        const reducerDef = schema?.reducers.find((candidate) => candidate.name === reducer);
+        if (schema && !reducerDef) {
+            return { status: "failed", error: `Reducer "${reducer}" not found` };
+        }
+
+        const invocations: ReducerArgs[] = step.rows ?? [step.args ?? []];
+        const errors: { row: number; error: string }[] = [];
+        let calls = 0;
+        for (const [row, rawArgs] of invocations.entries()) {
+            calls++;
+            let error: string | undefined;
+            try {
+                const args = substituteVariables(rawArgs, variables) as ReducerArgs;
+                if (!Array.isArray(args) && !reducerDef) {
+                    throw new Error("Named arguments need the database schema, which could not be loaded");
+                }
+                const positional = reducerDef ? positionalArgs(reducerDef, args) : (args as unknown[]);
+                const invalid = reducerDef ? validateReducerArgs(schema as RawSchema, reducerDef, positional) : [];
+                if (invalid.length > 0) {
+                    throw new Error(invalid.join("; "));
+                }
+                const result = await client.callReducer(database, reducer, positional);
+                error = result.success ? undefined : result.error;
+            } catch (caught: unknown) {
+                error = caught instanceof Error ? caught.message : "Unknown error";
+            }
+            if (error !== undefined) {
+                errors.push({ row, error });
+                if (stopOnError) break;
+            }
+        }
+
+        if (!step.rows) {
+            return errors.length > 0 ? { status: "failed", error: errors[0].error } : { status: "passed" };
+        }
+        return {
+            status: errors.length > 0 ? "failed" : "passed",
+            calls,
+            ...(errors.length > 0 ? { errors: errors.slice(0, MAX_LISTED_ERRORS) } : {}),
+        };
+    }
+
+    async function callReducersBatch(
+        client: SpacetimeClientLike,
+        database: string,
+        calls: { reducer: string; args?: ReducerArgs }[],
+        options: { concurrency: number; stopOnFailure: boolean }
+    ): Promise<BatchCall[]> {
+        // Validation is best effort, as for call_reducer
+        const schema = await loadReducerSchema(client, database, calls.map((call) => call.reducer));
+
+        const results: BatchCall[] = calls.map((call, i) => ({
+            "#": i + 1,
+            reducer: call.reducer,
+            status: "skipped",
+            http: null,
+            ms: null,
+            error: null,
+        }));
+        let next = 0;
+        let stopped = false;
+        const worker = async () => {
+            while (!stopped && next < calls.length) {
+                const index = next++;
+                results[index] = { ...results[index], ...(await runBatchCall(client, database, schema, calls[index])) };
+                if (results[index].status === "failed" && options.stopOnFailure) {
+                    stopped = true;
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(options.concurrency, calls.length) }, worker));
+        return results;
+    }
+
+    async function runBatchCall(
+        client: SpacetimeClientLike,
+        database: string,
+        schema: RawSchema | undefined,
+        call: { reducer: string; args?: ReducerArgs }
+    ): Promise<Pick<BatchCall, "status" | "http" | "ms" | "error">> {
+        const rejected = (error: string) => ({ status: "failed" as const, http: null, ms: null, error });
+        const reducerDef = schema?.reducers.find((candidate) => candidate.name === call.reducer);
+        if (schema && !reducerDef) {
+            return rejected(`Reducer "${call.reducer}" not found`);
+        }
+        if (call.args !== undefined && !Array.isArray(call.args) && !reducerDef) {
+            return rejected("Named arguments need the database schema, which could not be loaded");
+        }
+
+        let args: unknown[];
+        try {
+            args = reducerDef ? positionalArgs(reducerDef, call.args ?? []) : ((call.args ?? []) as unknown[]);
+        } catch (error: unknown) {
+            return rejected(error instanceof Error ? error.message : "Unknown error");
+        }
+        const invalid = reducerDef ? validateReducerArgs(schema as RawSchema, reducerDef, args) : [];
+        if (invalid.length > 0) {
+            return rejected(invalid.join("; "));
+        }
+
+        const started = Date.now();
+        const result = await client.callReducer(database, call.reducer, args);
+        const ms = Date.now() - started;
+        if (result.success) {
+            return { status: "ok", http: 200, ms, error: null };
+        }
+        // The client reports non-200 responses as `HTTP <status>: <JSON body>`
+        const response = /^HTTP (\d+): ([\s\S]*)$/.exec(result.error ?? "");
+        if (!response) {
+            return { status: "failed", http: null, ms, error: result.error ?? "Unknown error" };
+        }
+        let message = response[2];
+        try {
+            const body: unknown = JSON.parse(message);
+            message = typeof body === "string" ? body : message;
+        } catch {
+            // Keep the body as sent
+        }
+        return { status: "failed", http: Number(response[1]), ms, error: message.trim() };
+    }
+
+    async function listServers() {
+        const results = await Promise.all(
+            serverNames.map(async (name) => {
+                const server = resolveServer(name) as ServerContext;
+                const result = await server.dbClient.testConnection();
+                return {
+                    name,
+                    host: server.host,
+                    default_database: server.defaultDatabase || null,
+                    default: name === serverName,
+                    ...(server.credentialSource ? { credentials: server.credentialSource } : {}),
+                    connected: result.success,
+                    ...(result.success ? {} : { error: result.error }),
+                };
+            })
+        );
+        return formatToolResult({ success: true, data: results });
+    }
+
     const listTools = async () => {
         const dbDescription = defaultDatabase
             ? `Defaults to: ${defaultDatabase}`
             : "Required if no default is set.";
 
-        return {
-            tools: [
-                {
-                    name: "test_connection",
-                    description: "Test the connection to the SpacetimeDB instance.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {},
-                    },
+        const tools: ToolDefinition[] = [
+            {
+                name: "test_connection",
+                description: "Test the connection to the SpacetimeDB instance.",
+                inputSchema: {
+                    type: "object",
+                    properties: {},
                 },
-                {
-                    name: "get_schema",
-                    description: "Get the tables and reducers (functions) of a database.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            database: {
-                                type: "string",
-                                description: `The database name. ${dbDescription}`,
-                            },
+            },
+            {
+                name: "get_schema",
+                description: "Get the tables and reducers (functions) of a database.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        format: {
+                            type: "string",
+                            description:
+                                "Optional output format: text (default), json (normalized model), typescript (.d.ts-style declarations) or jsonschema (JSON Schema per table row and reducer arguments)",
+                        },
+                        refresh: {
+                            type: "boolean",
+                            description: "If true, bypass the schema cache and fetch the schema again",
                         },
-                        required: defaultDatabase ? [] : ["database"],
                     },
+                    required: defaultDatabase ? [] : ["database"],
                 },
+            },
             {
                 name: "sql_query",
                 description: "Run a SQL query against the database to inspect or modify data.",
@@ -170,19 +1196,231 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                             },
                         query: {
                             type: "string",
-                            description: "The SQL query (e.g., SELECT * FROM users LIMIT 10)",
+                            description: "The SQL query (e.g., SELECT * FROM users LIMIT 10)",
+                        },
+                        format: {
+                            type: "string",
+                            description:
+                                "Optional output format: json (default) or markdown. With export_path: csv, ndjson or json (default: from the file extension); csv and ndjson require export_path",
+                        },
+                        max_rows: {
+                            type: "number",
+                            description: "Maximum number of rows to return per statement; the response says how many were left out",
+                        },
+                        export_path: {
+                            type: "string",
+                            description:
+                                "Write the full result to this file and return only a summary and a preview. Relative to the export directory (SPACETIMEDB_EXPORT_DIR), which it must stay inside",
+                        },
+                        skip_lint: {
+                            type: "boolean",
+                            description: "If true, send the query without checking it against the schema first",
+                        },
+                    },
+                    required: defaultDatabase ? ["query"] : ["database", "query"],
+                },
+            },
+            {
+                name: "diff_schema",
+                description:
+                    "Compare the schema of a database with another database, the same database on another server, or a saved snapshot. Reports added, removed and changed tables, columns, reducers and types, and which changes break existing clients.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database to compare from. ${dbDescription}`,
+                        },
+                        compare_database: {
+                            type: "string",
+                            description: "The database to compare to. Defaults to the same database name",
+                        },
+                        compare_server: {
+                            type: "string",
+                            description: "Server profile of compare_database. Defaults to the server of database",
+                        },
+                        snapshot_path: {
+                            type: "string",
+                            description:
+                                "File in the export directory (SPACETIMEDB_EXPORT_DIR) for before/after comparisons: if it does not exist, the current schema is saved there; if it does, the saved schema is compared with the current one",
+                        },
+                    },
+                    required: defaultDatabase ? [] : ["database"],
+                },
+            },
+            {
+                name: "lint_sql",
+                description:
+                    "Check SQL against the database schema and SpacetimeDB's SQL dialect without running it. Reports unknown tables and columns with suggestions, unsupported syntax, and whether each statement reads or writes.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        query: {
+                            type: "string",
+                            description: "The SQL to check",
+                        },
+                    },
+                    required: defaultDatabase ? ["query"] : ["database", "query"],
+                },
+            },
+            {
+                name: "publish_database",
+                description: "Publish or update a database using the spacetime CLI.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        project_path: {
+                            type: "string",
+                            description: "Path to the module project directory",
+                        },
+                        clear_data: {
+                            type: "boolean",
+                            description: "If true, delete existing data before publishing. Requires confirmation.",
+                        },
+                        confirm_token: {
+                            type: "string",
+                            description: "Token from the preview returned by the first call with clear_data",
+                        },
+                        dry_run: {
+                            type: "boolean",
+                            description:
+                                "If true, only report the planned schema changes and whether automatic migration works. Builds the module locally and deploys nothing.",
+                        },
+                        allow_breaking: {
+                            type: "boolean",
+                            description:
+                                "Publish even if automatic migration cannot apply the changes or they break existing clients (passes --break-clients to the CLI)",
+                        },
+                    },
+                    required: defaultDatabase ? ["project_path"] : ["database", "project_path"],
+                },
+            },
+            {
+                name: "generate_bindings",
+                description:
+                    "Generate client bindings for a module with the spacetime CLI and report which files were created, updated or deleted.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        language: {
+                            type: "string",
+                            description: `Target language: ${LANGUAGES.join(", ")}`,
+                        },
+                        project_path: {
+                            type: "string",
+                            description: "Path to the module project directory",
+                        },
+                        out_dir: {
+                            type: "string",
+                            description: "Directory to write the bindings to, relative to project_path unless absolute",
+                        },
+                    },
+                    required: ["language", "project_path", "out_dir"],
+                },
+            },
+            {
+                name: "build_module",
+                description:
+                    "Build a module with the spacetime CLI. Compiler output from cargo, dotnet or tsc is returned as diagnostics with file, line, column, severity and message.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        project_path: {
+                            type: "string",
+                            description: "Path to the module project directory",
+                        },
+                        debug: {
+                            type: "boolean",
+                            description: "If true, build in debug mode",
+                        },
+                    },
+                    required: ["project_path"],
+                },
+            },
+            {
+                name: "init_module",
+                description: "Create a new module project with the spacetime CLI and list the files it created.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        language: {
+                            type: "string",
+                            description: `Module language: ${LANGUAGES.join(", ")}`,
+                        },
+                        project_path: {
+                            type: "string",
+                            description: "Directory to create the project in",
+                        },
+                    },
+                    required: ["language", "project_path"],
+                },
+            },
+            {
+                name: "export_database",
+                description:
+                    "Back up a database: write its schema and every table's rows to a new snapshot directory that import_database can restore.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        out_dir: {
+                            type: "string",
+                            description:
+                                "Directory inside the export directory (SPACETIMEDB_EXPORT_DIR) to create the snapshot in; the snapshot gets its own subdirectory named after the database and time",
+                        },
+                    },
+                    required: defaultDatabase ? ["out_dir"] : ["database", "out_dir"],
+                },
+            },
+            {
+                name: "import_database",
+                description:
+                    "Restore rows from an export_database snapshot, through an insert reducer per table or SQL INSERT. Reports inserted rows and conflicts per table.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
                         },
-                        format: {
+                        snapshot_path: {
                             type: "string",
-                            description: "Optional output format: json (default) or markdown",
+                            description: "Snapshot directory written by export_database, in the export directory (SPACETIMEDB_EXPORT_DIR)",
+                        },
+                        reducers: {
+                            type: "object",
+                            additionalProperties: { type: "string" },
+                            description:
+                                "Insert reducer per table, e.g. {\"users\": \"insert_user\"}. The reducer receives each row's columns as arguments. Tables without one are restored with SQL INSERT.",
+                        },
+                        tables: {
+                            type: "array",
+                            items: { type: "string" },
+                            description: "Only restore these tables",
+                        },
+                        stop_on_error: {
+                            type: "boolean",
+                            description: "Stop after the first table with failed rows or that had to be skipped",
                         },
                     },
-                    required: defaultDatabase ? ["query"] : ["database", "query"],
+                    required: defaultDatabase ? ["snapshot_path"] : ["database", "snapshot_path"],
                 },
             },
             {
-                name: "publish_database",
-                description: "Publish or update a database using the spacetime CLI.",
+                name: "seed_database",
+                description:
+                    "Run a JSON or YAML fixture of reducer calls and queries in order, with ${variable} substitution, and report pass or fail per step. Variables in queries are written as SQL literals.",
                 inputSchema: {
                     type: "object",
                     properties: {
@@ -190,16 +1428,20 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                             type: "string",
                             description: `The database name. ${dbDescription}`,
                         },
-                        project_path: {
+                        fixture_path: {
                             type: "string",
-                            description: "Path to the module project directory",
+                            description: "A .json, .yaml or .yml fixture file in the export directory (SPACETIMEDB_EXPORT_DIR)",
                         },
-                        clear_data: {
+                        variables: {
+                            type: "object",
+                            description: "Values for ${name} references; override the fixture's own variables",
+                        },
+                        stop_on_error: {
                             type: "boolean",
-                            description: "If true, delete existing data before publishing",
+                            description: "Stop at the first failed call instead of running the remaining steps",
                         },
                     },
-                    required: defaultDatabase ? ["project_path"] : ["database", "project_path"],
+                    required: defaultDatabase ? ["fixture_path"] : ["database", "fixture_path"],
                 },
             },
             {
@@ -232,7 +1474,8 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
             },
             {
                 name: "delete_database",
-                description: "Delete a database.",
+                description:
+                    "Delete a database. The first call returns a preview and a confirm_token; repeat the call with the token to delete.",
                 inputSchema: {
                     type: "object",
                     properties: {
@@ -240,6 +1483,10 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                             type: "string",
                             description: `The database name. ${dbDescription}`,
                         },
+                        confirm_token: {
+                            type: "string",
+                            description: "Token from the preview returned by the first call",
+                        },
                     },
                     required: defaultDatabase ? [] : ["database"],
                 },
@@ -290,9 +1537,145 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                     required: ["identity"],
                 },
             },
+            {
+                name: "call_reducer",
+                description: "Call a reducer function on the database.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        reducer: {
+                            type: "string",
+                            description: "The reducer function name",
+                        },
+                        args: {
+                            type: "array",
+                            description: "Arguments for the reducer as a JSON array",
+                            items: {},
+                        },
+                    },
+                    required: defaultDatabase ? ["reducer", "args"] : ["database", "reducer", "args"],
+                },
+            },
+            {
+                name: "call_reducers_batch",
+                description:
+                    "Call several reducers in one request and get a compact table of status, HTTP code, duration and error per call.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        calls: {
+                            type: "array",
+                            description: "Reducer calls in order; args is a JSON array or an object keyed by parameter name",
+                            items: {
+                                type: "object",
+                                properties: {
+                                    reducer: { type: "string" },
+                                    args: {},
+                                },
+                                required: ["reducer"],
+                            },
+                        },
+                        concurrency: {
+                            type: "number",
+                            description: `How many calls to run at once (default 1, at most ${MAX_BATCH_CONCURRENCY}). With 1 the calls run strictly in order.`,
+                        },
+                        stop_on_failure: {
+                            type: "boolean",
+                            description: "Stop starting new calls after the first failure; the remaining calls are reported as skipped",
+                        },
+                        format: {
+                            type: "string",
+                            description: "Optional output format: markdown (default) or json",
+                        },
+                    },
+                    required: defaultDatabase ? ["calls"] : ["database", "calls"],
+                },
+            },
+            {
+                name: "get_logs",
+                description: "Get recent logs from the database.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        count: {
+                            type: "number",
+                            description: "Number of log lines to fetch (default: 50). Filters apply to these lines.",
+                        },
+                        level: {
+                            type: "string",
+                            description: "Minimum level: trace, debug, info, warn, error or panic",
+                        },
+                        target: {
+                            type: "string",
+                            description: "Only lines whose target (module path) starts with this prefix",
+                        },
+                        filename: {
+                            type: "string",
+                            description: "Only lines logged from a source file containing this text",
+                        },
+                        since: {
+                            type: "string",
+                            description: "Only lines at or after this ISO 8601 timestamp",
+                        },
+                        until: {
+                            type: "string",
+                            description: "Only lines at or before this ISO 8601 timestamp",
+                        },
+                        pattern: {
+                            type: "string",
+                            description: "Regular expression the message must match",
+                        },
+                        format: {
+                            type: "string",
+                            description: "Optional output format: text (default) or json (includes filename and line_number)",
+                        },
+                    },
+                    required: defaultDatabase ? [] : ["database"],
+                },
+            },
+            {
+                name: "tail_logs",
+                description:
+                    "Get log lines written since the last call. Pass the returned cursor back to continue where you left off.",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        database: {
+                            type: "string",
+                            description: `The database name. ${dbDescription}`,
+                        },
+                        cursor: {
+                            type: "string",
+                            description: "Cursor returned by the previous tail_logs call. Omit to start from the latest lines.",
+                        },
+                        count: {
+                            type: "number",
+                            description: "Number of recent log lines to scan for new entries (default: 100)",
+                        },
+                    },
+                    required: defaultDatabase ? [] : ["database"],
+                },
+            },
+        ];
+
+        if (subscriptions) {
+            tools.push(
                 {
-                    name: "call_reducer",
-                    description: "Call a reducer function on the database.",
+                    name: "subscribe",
+                    description:
+                        "Open a live subscription to one or more SQL queries. Buffers the initial rows and every later insert and delete.",
                     inputSchema: {
                         type: "object",
                         properties: {
@@ -300,48 +1683,145 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                                 type: "string",
                                 description: `The database name. ${dbDescription}`,
                             },
-                            reducer: {
-                                type: "string",
-                                description: "The reducer function name",
-                            },
-                            args: {
+                            queries: {
                                 type: "array",
-                                description: "Arguments for the reducer as a JSON array",
-                                items: {},
+                                description: "Subscription queries (e.g., SELECT * FROM players)",
+                                items: { type: "string" },
                             },
                         },
-                        required: defaultDatabase ? ["reducer", "args"] : ["database", "reducer", "args"],
+                        required: defaultDatabase ? ["queries"] : ["database", "queries"],
                     },
                 },
                 {
-                    name: "get_logs",
-                    description: "Get recent logs from the database.",
+                    name: "poll_subscription",
+                    description: "Fetch and clear the events buffered by a subscription since the last poll.",
                     inputSchema: {
                         type: "object",
                         properties: {
-                            database: {
+                            subscription_id: {
                                 type: "string",
-                                description: `The database name. ${dbDescription}`,
+                                description: "The id returned by subscribe",
                             },
-                            count: {
+                            max_events: {
                                 type: "number",
-                                description: "Number of log lines to fetch (default: 50)",
+                                description: "Maximum number of events to return (default: all)",
                             },
                         },
-                        required: defaultDatabase ? [] : ["database"],
+                        required: ["subscription_id"],
                     },
                 },
-            ],
-        };
+                {
+                    name: "unsubscribe",
+                    description: "Close a subscription and discard its buffer.",
+                    inputSchema: {
+                        type: "object",
+                        properties: {
+                            subscription_id: {
+                                type: "string",
+                                description: "The id returned by subscribe",
+                            },
+                        },
+                        required: ["subscription_id"],
+                    },
+                }
+            );
+        }
+
+        tools.push({
+            name: "list_servers",
+            description: "List the configured SpacetimeDB servers and check whether each one is reachable.",
+            inputSchema: {
+                type: "object",
+                properties: {},
+            },
+        });
+
+        if (serverNames.length > 1) {
+            for (const tool of tools) {
+                if (UNSCOPED_TOOLS.has(tool.name)) continue;
+                tool.inputSchema.properties = {
+                    ...tool.inputSchema.properties,
+                    server: {
+                        type: "string",
+                        description: `Server profile to use: ${serverNames.join(", ")}. Defaults to: ${serverName}`,
+                    },
+                };
+            }
+        }
+
+        if (reducerTools && defaultDatabase && isToolAllowed(policy, "call_reducer")) {
+            tools.push(...(await buildReducerTools()));
+        }
+
+        return { tools: tools.filter((tool) => isToolAllowed(policy, tool.name)) };
     };
 
-    const callTool = async (request: { params: { name: string; arguments?: unknown } }) => {
+    const callTool = async (
+        request: { params: { name: string; arguments?: unknown; _meta?: { progressToken?: string | number } } },
+        extra?: { sendNotification: (notification: ServerNotification) => Promise<void> }
+    ) => {
         const { name, arguments: args } = request.params;
         const safeArgs = (args ?? {}) as Record<string, unknown>;
-        const database = (safeArgs.database as string) || defaultDatabase;
+        const progressToken = request.params._meta?.progressToken;
+        const reportProgress = async (progress: number, total: number, message: string) => {
+            if (progressToken === undefined || !extra) return;
+            await extra.sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } });
+        };
+
+        if (name.startsWith(REDUCER_TOOL_PREFIX)) {
+            return callGeneratedReducerTool(name, safeArgs);
+        }
+
+        if (UNSCOPED_TOOLS.has(name)) {
+            const violation = checkToolCall(policy, name, null, safeArgs);
+            if (violation) {
+                return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+            }
+        }
+
+        if (name === "list_servers") {
+            return listServers();
+        }
+
+        if (name === "generate_bindings") {
+            return generateBindings(safeArgs);
+        }
+
+        if (name === "build_module") {
+            return buildModule(safeArgs);
+        }
+
+        if (name === "init_module") {
+            return initModule(safeArgs);
+        }
+
+        const server = resolveServer(safeArgs.server);
+        if (!server) {
+            return {
+                content: [{ type: "text", text: `Error: Unknown server "${safeArgs.server}". Configured servers: ${serverNames.join(", ")}` }],
+                isError: true,
+            };
+        }
+        const client = server.dbClient;
+        const database = (safeArgs.database as string) || server.defaultDatabase;
+        const isDefaultDatabase = server === defaultServer && database === defaultDatabase;
 
         if (name === "test_connection") {
-            const result = await dbClient.testConnection();
+            const result = await client.testConnection();
+            return formatToolResult(result);
+        }
+
+        if (name === "poll_subscription" || name === "unsubscribe") {
+            const subscriptionId = safeArgs.subscription_id as string;
+            if (!server.subscriptions) {
+                return { content: [{ type: "text", text: "Error: Subscriptions are not available." }], isError: true };
+            }
+            if (!subscriptionId) {
+                return { content: [{ type: "text", text: "Error: No subscription_id provided." }], isError: true };
+            }
+            const result = name === "unsubscribe"
+                ? server.subscriptions.unsubscribe(subscriptionId)
+                : server.subscriptions.poll(subscriptionId, safeArgs.max_events as number | undefined);
             return formatToolResult(result);
         }
 
@@ -352,22 +1832,186 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
             };
         }
 
+        const violation = checkToolCall(policy, name, IDENTITY_TOOLS.has(name) ? null : database, safeArgs);
+        if (violation) {
+            return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+        }
+
         switch (name) {
             case "get_schema": {
-                const result = await dbClient.getSchema(database);
+                const format = ((safeArgs.format as string) || "text") as SchemaFormat;
+                if (!SCHEMA_FORMATS.includes(format)) {
+                    return {
+                        content: [{ type: "text", text: `Error: Unknown format "${format}". Use one of: ${SCHEMA_FORMATS.join(", ")}` }],
+                        isError: true,
+                    };
+                }
+                const result = await client.getSchema(database, format, Boolean(safeArgs.refresh));
                 return formatToolResult(result);
             }
             case "sql_query": {
                 const query = safeArgs.query as string;
-                const format = (safeArgs.format as string) || "json";
+                let exportPath = safeArgs.export_path as string | undefined;
+                const maxRows = safeArgs.max_rows as number | undefined;
+                const format = (safeArgs.format as string) || (exportPath ? formatFromPath(exportPath) ?? "json" : "json");
                 if (!query) {
                     return { content: [{ type: "text", text: "Error: No query provided." }], isError: true };
                 }
-                const result = await dbClient.runSql(database, query);
-                if (!result.success || format !== "markdown") {
+                if (maxRows !== undefined && (!Number.isInteger(maxRows) || maxRows < 1)) {
+                    return { content: [{ type: "text", text: "Error: max_rows must be a positive integer." }], isError: true };
+                }
+                if (!exportPath && format !== "json" && format !== "markdown") {
+                    const hint = EXPORT_FORMATS.includes(format as ExportFormat) ? ` ${format} is only written to a file; pass export_path.` : "";
+                    return {
+                        content: [{ type: "text", text: `Error: Unknown output format "${format}". Use json or markdown.${hint}` }],
+                        isError: true,
+                    };
+                }
+                if (exportPath && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+                    return {
+                        content: [{ type: "text", text: `Error: Unknown export format "${format}". Use one of: ${EXPORT_FORMATS.join(", ")}` }],
+                        isError: true,
+                    };
+                }
+                if (exportPath) {
+                    const target = resolveExportPath("export_path", exportPath);
+                    if (!target.success) {
+                        return formatToolResult(target);
+                    }
+                    exportPath = target.data as string;
+                }
+
+                if (!safeArgs.skip_lint) {
+                    // Lint is only as good as the schema; without one, let the server judge the query.
+                    // A failure may come from a cached schema that predates a publish, so it is rechecked fresh
+                    let lint: SqlLintResult | null = null;
+                    for (const refresh of [false, true]) {
+                        const tablesResult = await client.getTables(database, refresh);
+                        lint = tablesResult.success ? lintSql(query, tablesResult.data as ParsedTable[]) : null;
+                        if (!lint || lint.valid) break;
+                    }
+                    if (lint && !lint.valid) {
+                        return {
+                            content: [{ type: "text", text: `Error: Query was not sent because it failed linting:\n${formatLintIssues(lint)}\nPass skip_lint: true to send it anyway.` }],
+                            isError: true,
+                        };
+                    }
+                }
+
+                const result = await client.runSql(database, query);
+                if (!result.success) {
                     return formatToolResult(result);
                 }
-                return { content: [{ type: "text", text: formatSqlMarkdown(result.data) }] };
+
+                if (exportPath) {
+                    const table = exportableRows(result.data);
+                    if (typeof table === "string") {
+                        return { content: [{ type: "text", text: `Error: ${table}` }], isError: true };
+                    }
+                    try {
+                        const summary = await exportRows(exportPath, format as ExportFormat, table.columns, table.rows);
+                        return formatToolResult({ success: true, data: { ...summary, preview: table.rows.slice(0, maxRows ?? 10) } });
+                    } catch (error: unknown) {
+                        const message = error instanceof Error ? error.message : "Unknown error";
+                        return { content: [{ type: "text", text: `Error: Failed to write ${exportPath}: ${message}` }], isError: true };
+                    }
+                }
+
+                const { data, omitted } = maxRows ? truncateSqlResult(result.data, maxRows) : { data: result.data, omitted: 0 };
+                if (format !== "markdown") {
+                    // Statement results carry `omitted_rows` themselves; plain row arrays need a wrapper
+                    const output = omitted > 0 && !(Array.isArray(data) && data.every(isSqlStatementResult))
+                        ? { rows: data, omitted_rows: omitted }
+                        : data;
+                    return formatToolResult({ success: true, data: output });
+                }
+                const note = omitted > 0 ? `\n\n_${omitted} more row(s) not shown (max_rows: ${maxRows})_` : "";
+                return { content: [{ type: "text", text: formatSqlMarkdown(data) + note }] };
+            }
+            case "diff_schema": {
+                let snapshotPath = safeArgs.snapshot_path as string | undefined;
+                const compareServerName = safeArgs.compare_server ?? safeArgs.server;
+                if (snapshotPath && (safeArgs.compare_database || safeArgs.compare_server)) {
+                    return {
+                        content: [{ type: "text", text: "Error: Use either snapshot_path or compare_database/compare_server." }],
+                        isError: true,
+                    };
+                }
+
+                const compareServer = snapshotPath ? server : resolveServer(compareServerName);
+                if (!compareServer) {
+                    return {
+                        content: [{ type: "text", text: `Error: Unknown server "${compareServerName}". Configured servers: ${serverNames.join(", ")}` }],
+                        isError: true,
+                    };
+                }
+                const compareDatabase = (safeArgs.compare_database as string) || database;
+                if (!snapshotPath && compareServer === server && compareDatabase === database) {
+                    return {
+                        content: [{ type: "text", text: "Error: Nothing to compare. Pass compare_database, compare_server or snapshot_path." }],
+                        isError: true,
+                    };
+                }
+                if (!isDatabaseAllowed(policy, compareDatabase)) {
+                    return { content: [{ type: "text", text: `Error: Blocked by policy: Database "${compareDatabase}" is not allowed` }], isError: true };
+                }
+                if (snapshotPath) {
+                    const target = resolveExportPath("snapshot_path", snapshotPath);
+                    if (!target.success) {
+                        return formatToolResult(target);
+                    }
+                    snapshotPath = target.data as string;
+                }
+
+                const currentResult = await client.getRawSchema(database, true);
+                if (!currentResult.success) {
+                    return formatToolResult(currentResult);
+                }
+                const current = currentResult.data as RawSchema;
+
+                if (snapshotPath) {
+                    try {
+                        const snapshot = await loadSchemaSnapshot(snapshotPath);
+                        if (!snapshot) {
+                            await saveSchemaSnapshot(snapshotPath, database, current);
+                            return formatToolResult({
+                                success: true,
+                                data: { snapshot_saved: snapshotPath, message: "Call diff_schema again with the same snapshot_path to compare against this schema." },
+                            });
+                        }
+                        return formatToolResult({
+                            success: true,
+                            data: { before: { snapshot: snapshotPath }, after: { database }, ...diffSchemas(snapshot, current) },
+                        });
+                    } catch (error: unknown) {
+                        const message = error instanceof Error ? error.message : "Unknown error";
+                        return { content: [{ type: "text", text: `Error: Failed to use snapshot ${snapshotPath}: ${message}` }], isError: true };
+                    }
+                }
+
+                const otherResult = await compareServer.dbClient.getRawSchema(compareDatabase, true);
+                if (!otherResult.success) {
+                    return formatToolResult({ success: false, error: `${compareDatabase}: ${otherResult.error}` });
+                }
+                return formatToolResult({
+                    success: true,
+                    data: {
+                        before: { server: (safeArgs.server as string) || serverName, database },
+                        after: { server: (compareServerName as string) || serverName, database: compareDatabase },
+                        ...diffSchemas(current, otherResult.data as RawSchema),
+                    },
+                });
+            }
+            case "lint_sql": {
+                const query = safeArgs.query as string;
+                if (!query) {
+                    return { content: [{ type: "text", text: "Error: No query provided." }], isError: true };
+                }
+                const tablesResult = await client.getTables(database);
+                if (!tablesResult.success) {
+                    return formatToolResult(tablesResult);
+                }
+                return formatToolResult({ success: true, data: lintSql(query, tablesResult.data as ParsedTable[]) });
             }
             case "publish_database": {
                 const projectPath = safeArgs.project_path as string;
@@ -375,38 +2019,198 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                 if (!projectPath) {
                     return { content: [{ type: "text", text: "Error: No project_path provided." }], isError: true };
                 }
-                const args = ["publish", database, "--project-path", projectPath, "-y"];
-                if (host) {
-                    args.push("--server", host);
+                const allowBreaking = Boolean(safeArgs.allow_breaking);
+
+                // A dry run deletes nothing, so it neither asks for nor uses up a confirm token
+                if (safeArgs.dry_run) {
+                    const plan = await planPublish(server, database, projectPath);
+                    if (plan.success && clearData) {
+                        // Clearing data sidesteps migration entirely
+                        return formatToolResult({ success: true, data: { ...(plan.data as object), data_cleared: true } });
+                    }
+                    return formatToolResult(plan);
+                }
+
+                const confirmKey = JSON.stringify(["publish_database", server.host, database, projectPath]);
+                const confirmToken = safeArgs.confirm_token as string | undefined;
+                if (clearData && !confirmToken) {
+                    return previewDestructive(client, "publish_database --delete-data", confirmKey, database);
+                }
+                if (!allowBreaking) {
+                    const plan = await planPublish(server, database, projectPath);
+                    if (!plan.success) {
+                        return formatToolResult(plan);
+                    }
+                    const blockers = (plan.data as { migration?: { blockers: string[] } }).migration?.blockers ?? [];
+                    if (blockers.length > 0) {
+                        return {
+                            content: [
+                                {
+                                    type: "text",
+                                    text: `Error: Publish refused. Automatic migration cannot apply these changes: ${blockers.join("; ")}. Pass allow_breaking: true to publish anyway.`,
+                                },
+                            ],
+                            isError: true,
+                        };
+                    }
                 }
-                if (clearData) {
-                    args.push("--delete-data");
+                if (clearData && !confirmations.consume(confirmToken as string, confirmKey)) {
+                    return invalidConfirmation();
                 }
 
                 try {
                     const { stdout, stderr } = await runPublishCommand({
                         command: "spacetime",
-                        args,
+                        args: publishArgs(server, database, projectPath, { clearData, allowBreaking }),
                         cwd: projectPath,
                     });
                     const output = [stdout, stderr].map((text) => text?.trim()).filter(Boolean).join("\n");
+                    client.invalidateSchema(database);
+                    if (reducerTools && isDefaultDatabase) {
+                        onToolsChanged?.();
+                    }
                     return { content: [{ type: "text", text: output || "Publish command completed." }] };
                 } catch (error: unknown) {
-                    const err = error as { stderr?: string; stdout?: string; message?: string };
-                    const details = [err.stdout, err.stderr, err.message].map((text) => text?.trim()).filter(Boolean).join("\n");
-                    return { content: [{ type: "text", text: `Error: Publish failed. ${details}` }], isError: true };
+                    return { content: [{ type: "text", text: `Error: Publish failed. ${commandErrorDetails(error)}` }], isError: true };
+                }
+            }
+            case "export_database": {
+                const outDir = safeArgs.out_dir as string;
+                if (!outDir) {
+                    return { content: [{ type: "text", text: "Error: No out_dir provided." }], isError: true };
+                }
+                const target = resolveExportPath("out_dir", outDir);
+                if (!target.success) {
+                    return formatToolResult(target);
+                }
+                return formatToolResult(await exportDatabase(server, database, target.data as string));
+            }
+            case "import_database": {
+                const snapshotPath = safeArgs.snapshot_path as string;
+                const reducers = (safeArgs.reducers ?? {}) as Record<string, string>;
+                const only = safeArgs.tables as string[] | undefined;
+                if (!snapshotPath) {
+                    return { content: [{ type: "text", text: "Error: No snapshot_path provided." }], isError: true };
+                }
+                const source = resolveExportPath("snapshot_path", snapshotPath);
+                if (!source.success) {
+                    return formatToolResult(source);
+                }
+
+                let snapshot;
+                try {
+                    snapshot = await readDatabaseSnapshot(source.data as string);
+                } catch (error: unknown) {
+                    const message = error instanceof Error ? error.message : "Unknown error";
+                    return { content: [{ type: "text", text: `Error: Failed to read snapshot: ${message}` }], isError: true };
+                }
+                const unknownTables = (only ?? []).filter((table) => !snapshot.tables.some((candidate) => candidate.table === table));
+                if (unknownTables.length > 0) {
+                    return {
+                        content: [{ type: "text", text: `Error: Tables not in the snapshot: ${unknownTables.join(", ")}` }],
+                        isError: true,
+                    };
+                }
+                const selected = snapshot.tables.filter((table) => !only || only.includes(table.table));
+
+                for (const table of selected) {
+                    const reducer = reducers[table.table];
+                    const violation = reducer
+                        ? checkToolCall(policy, "call_reducer", database, { reducer })
+                        : checkToolCall(policy, "sql_query", database, { query: `INSERT INTO ${table.table}` });
+                    if (violation) {
+                        return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+                    }
+                }
+
+                const schemaResult = await client.getRawSchema(database, true);
+                if (!schemaResult.success) {
+                    return formatToolResult(schemaResult);
+                }
+
+                const imported: TableImport[] = [];
+                for (const [index, table] of selected.entries()) {
+                    const entry = await importTable(client, database, schemaResult.data as RawSchema, table, reducers[table.table]);
+                    imported.push(entry);
+                    await reportProgress(
+                        index + 1,
+                        selected.length,
+                        entry.skipped ? `${entry.table}: skipped` : `${entry.table}: ${entry.inserted}/${entry.rows} rows`
+                    );
+                    if (safeArgs.stop_on_error && (entry.skipped || entry.failed > 0)) {
+                        break;
+                    }
+                }
+
+                const total = (key: "inserted" | "conflicts" | "failed") => imported.reduce((sum, entry) => sum + entry[key], 0);
+                return formatToolResult({
+                    success: true,
+                    data: {
+                        database,
+                        snapshot: snapshot.path,
+                        source_database: snapshot.manifest.database,
+                        inserted: total("inserted"),
+                        conflicts: total("conflicts"),
+                        failed: total("failed"),
+                        tables: imported,
+                    },
+                });
+            }
+            case "seed_database": {
+                const fixturePath = safeArgs.fixture_path as string;
+                if (!fixturePath) {
+                    return { content: [{ type: "text", text: "Error: No fixture_path provided." }], isError: true };
+                }
+                const source = resolveExportPath("fixture_path", fixturePath);
+                if (!source.success) {
+                    return formatToolResult(source);
+                }
+                let fixture: Fixture;
+                try {
+                    fixture = await loadFixture(source.data as string);
+                } catch (error: unknown) {
+                    const message = error instanceof Error ? error.message : "Unknown error";
+                    return { content: [{ type: "text", text: `Error: Failed to read fixture: ${message}` }], isError: true };
+                }
+
+                // Queries can be built from variables, so runQueryStep checks them once substituted
+                for (const step of fixture.steps) {
+                    const violation = step.reducer ? checkToolCall(policy, "call_reducer", database, { reducer: step.reducer }) : null;
+                    if (violation) {
+                        return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+                    }
                 }
+
+                const result = await seedDatabase(client, database, fixture, {
+                    stopOnError: Boolean(safeArgs.stop_on_error),
+                    variables: (safeArgs.variables ?? {}) as Record<string, unknown>,
+                });
+                return formatToolResult(result);
             }
             case "describe_database": {
-                const result = await dbClient.describeDatabase(database);
+                const result = await client.describeDatabase(database);
                 return formatToolResult(result);
             }
             case "get_database_identity": {
-                const result = await dbClient.getDatabaseIdentity(database);
+                const result = await client.getDatabaseIdentity(database);
                 return formatToolResult(result);
             }
             case "delete_database": {
-                const result = await dbClient.deleteDatabase(database);
+                const confirmKey = JSON.stringify(["delete_database", server.host, database]);
+                const confirmToken = safeArgs.confirm_token as string | undefined;
+                if (!confirmToken) {
+                    return previewDestructive(client, "delete_database", confirmKey, database);
+                }
+                if (!confirmations.consume(confirmToken, confirmKey)) {
+                    return invalidConfirmation();
+                }
+                const result = await client.deleteDatabase(database);
+                if (result.success) {
+                    client.invalidateSchema(database);
+                }
+                if (result.success && reducerTools && isDefaultDatabase) {
+                    onToolsChanged?.();
+                }
                 return formatToolResult(result);
             }
             case "list_databases": {
@@ -414,7 +2218,7 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                 if (!identity) {
                     return { content: [{ type: "text", text: "Error: No identity provided." }], isError: true };
                 }
-                const result = await dbClient.listDatabases(identity);
+                const result = await client.listDatabases(identity);
                 return formatToolResult(result);
             }
             case "add_database_alias": {
@@ -423,7 +2227,7 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                 if (!identity || !name) {
                     return { content: [{ type: "text", text: "Error: Identity and name are required." }], isError: true };
                 }
-                const result = await dbClient.addDatabaseAlias(identity, name);
+                const result = await client.addDatabaseAlias(identity, name);
                 return formatToolResult(result);
             }
             case "get_database_aliases": {
@@ -431,7 +2235,7 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                 if (!identity) {
                     return { content: [{ type: "text", text: "Error: No identity provided." }], isError: true };
                 }
-                const result = await dbClient.getDatabaseAliases(identity);
+                const result = await client.getDatabaseAliases(identity);
                 return formatToolResult(result);
             }
             case "call_reducer": {
@@ -440,12 +2244,79 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
                 if (!reducer) {
                     return { content: [{ type: "text", text: "Error: No reducer name provided." }], isError: true };
                 }
-                const result = await dbClient.callReducer(database, reducer, reducerArgs);
-                return formatToolResult(result);
+                if (!Array.isArray(reducerArgs)) {
+                    return { content: [{ type: "text", text: "Error: args must be a JSON array." }], isError: true };
+                }
+
+                return invokeReducer(client, database, reducer, reducerArgs);
+            }
+            case "call_reducers_batch": {
+                const calls = safeArgs.calls as { reducer: string; args?: ReducerArgs }[] | undefined;
+                const concurrency = (safeArgs.concurrency as number | undefined) ?? 1;
+                if (!Array.isArray(calls) || calls.length === 0) {
+                    return { content: [{ type: "text", text: "Error: No calls provided." }], isError: true };
+                }
+                const malformed = calls.findIndex((call) => typeof call?.reducer !== "string" || !call.reducer);
+                if (malformed !== -1) {
+                    return { content: [{ type: "text", text: `Error: calls[${malformed}] has no reducer name.` }], isError: true };
+                }
+                if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+                    return {
+                        content: [{ type: "text", text: `Error: concurrency must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}.` }],
+                        isError: true,
+                    };
+                }
+                for (const reducer of new Set(calls.map((call) => call.reducer))) {
+                    const violation = checkToolCall(policy, "call_reducer", database, { reducer });
+                    if (violation) {
+                        return { content: [{ type: "text", text: `Error: Blocked by policy: ${violation}` }], isError: true };
+                    }
+                }
+
+                const started = Date.now();
+                const results = await callReducersBatch(client, database, calls, {
+                    concurrency,
+                    stopOnFailure: Boolean(safeArgs.stop_on_failure),
+                });
+                const count = (status: BatchCall["status"]) => results.filter((result) => result.status === status).length;
+                const summary = { ok: count("ok"), failed: count("failed"), skipped: count("skipped"), total_ms: Date.now() - started };
+
+                if (safeArgs.format === "json") {
+                    return formatToolResult({ success: true, data: { database, ...summary, calls: results } });
+                }
+                const rows = results.map((result) => ({ ...result }));
+                const table = formatMarkdownTable(["#", "reducer", "status", "http", "ms", "error"], rows);
+                const footer = `_${summary.ok} ok, ${summary.failed} failed, ${summary.skipped} skipped in ${summary.total_ms} ms (concurrency ${concurrency})_`;
+                return { content: [{ type: "text", text: `${table}\n\n${footer}` }] };
             }
             case "get_logs": {
                 const count = (safeArgs.count as number) || 50;
-                const result = await dbClient.getLogs(database, count);
+                const result = await client.getLogs(database, count, {
+                    level: safeArgs.level as string | undefined,
+                    target: safeArgs.target as string | undefined,
+                    filename: safeArgs.filename as string | undefined,
+                    since: safeArgs.since as string | undefined,
+                    until: safeArgs.until as string | undefined,
+                    pattern: safeArgs.pattern as string | undefined,
+                    format: safeArgs.format === "json" ? "json" : "text",
+                });
+                return formatToolResult(result);
+            }
+            case "tail_logs": {
+                const cursor = safeArgs.cursor as string | undefined;
+                const count = (safeArgs.count as number) || 100;
+                const result = await client.tailLogs(database, cursor, count);
+                return formatToolResult(result);
+            }
+            case "subscribe": {
+                const queries = safeArgs.queries as string[];
+                if (!server.subscriptions) {
+                    return { content: [{ type: "text", text: "Error: Subscriptions are not available." }], isError: true };
+                }
+                if (!Array.isArray(queries) || queries.length === 0) {
+                    return { content: [{ type: "text", text: "Error: No queries provided." }], isError: true };
+                }
+                const result = await server.subscriptions.subscribe(database, queries);
                 return formatToolResult(result);
             }
             default:
@@ -453,7 +2324,16 @@ export function createHandlers({ dbClient, defaultDatabase, host, publishCommand
         }
     };
 
-    return { listResources, readResource, listTools, callTool };
+    return {
+        listResources,
+        listResourceTemplates,
+        readResource,
+        subscribeResource,
+        unsubscribeResource,
+        listTools,
+        callTool,
+        setServers,
+    };
 }
 
 export function createServer(config: ServerConfig) {
@@ -464,19 +2344,107 @@ export function createServer(config: ServerConfig) {
         },
         {
             capabilities: {
-                resources: {},
-                tools: {},
+                resources: { subscribe: true },
+                tools: { listChanged: true },
             },
         }
     );
 
-    const dbClient = new SpacetimeClient({ host: config.host, token: config.token });
-    const handlers = createHandlers({ dbClient, defaultDatabase: config.defaultDatabase, host: config.host });
+    // Contexts by profile name; a profile that did not change keeps its client, schema cache and subscriptions
+    let contexts = new Map<string, { key: string; context: ServerContext; subscriptions: SubscriptionManager }>();
+    const buildContexts = (serverName: string, defaultProfile: ServerProfile, profiles: Record<string, ServerProfile>) => {
+        const next = new Map<string, { key: string; context: ServerContext; subscriptions: SubscriptionManager }>();
+        const entries: [string, ServerProfile][] = [
+            [serverName, defaultProfile],
+            ...Object.entries(profiles).filter(([name]) => name !== serverName),
+        ];
+        for (const [name, profile] of entries) {
+            // A live token changes on its own, so only a fixed one is part of the key
+            const key = JSON.stringify([profile.host, profile.getToken ? null : profile.token, profile.defaultDatabase, profile.credentialSource]);
+            const existing = contexts.get(name);
+            if (existing?.key === key) {
+                next.set(name, existing);
+                continue;
+            }
+            const subscriptions = new SubscriptionManager({ host: profile.host, token: profile.token, getToken: profile.getToken });
+            const dbClient = new SpacetimeClient({
+                host: profile.host,
+                token: profile.token,
+                getToken: profile.getToken,
+                schemaCacheTtlMs: config.schemaCacheTtlMs,
+            });
+            const context: ServerContext = {
+                dbClient,
+                defaultDatabase: profile.defaultDatabase,
+                host: profile.host,
+                subscriptions,
+                credentialSource: profile.credentialSource,
+            };
+            next.set(name, { key, context, subscriptions });
+        }
+        for (const [name, entry] of contexts) {
+            if (next.get(name) !== entry) {
+                entry.subscriptions.closeAll();
+            }
+        }
+        contexts = next;
+        return {
+            serverName,
+            defaultServer: (next.get(serverName) as { context: ServerContext }).context,
+            identity: defaultProfile.identity,
+            servers: Object.fromEntries([...next].filter(([name]) => name !== serverName).map(([name, entry]) => [name, entry.context])),
+        };
+    };
+
+    let current = buildContexts(config.serverName ?? ENV_SERVER_NAME, config, config.servers ?? {});
+    const resourceWatcher = new ResourceWatcher({
+        getLogs: (database, lineCount) => current.defaultServer.dbClient.getLogs(database, lineCount),
+        subscribe: (database, queries, onChange) =>
+            (current.defaultServer.subscriptions as SubscriptionManager).subscribe(database, queries, onChange),
+        unsubscribe: (id) => (current.defaultServer.subscriptions as SubscriptionManager).unsubscribe(id),
+        notify: (uri) => {
+            server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+                console.error("Failed to send resource update:", error);
+            });
+        },
+    });
+    const handlers = createHandlers({
+        ...current.defaultServer,
+        identity: current.identity,
+        serverName: current.serverName,
+        servers: current.servers,
+        resourceWatcher,
+        policy: config.policy,
+        reducerTools: config.reducerTools,
+        exportDir: config.exportDir,
+        onToolsChanged: () => {
+            server.sendToolListChanged().catch((error: unknown) => {
+                console.error("Failed to send tool list update:", error);
+            });
+        },
+    });
+    const unwatchServers = config.watchServers?.((profiles) => {
+        const next = buildContexts(profiles.defaultServer, profiles.servers[profiles.defaultServer], profiles.servers);
+        if (next.defaultServer !== current.defaultServer) {
+            // Watches were subscribed through the old default server, whose connections are closed now
+            resourceWatcher.closeAll();
+        }
+        current = next;
+        handlers.setServers(current);
+    });
 
     server.setRequestHandler(ListResourcesRequestSchema, handlers.listResources);
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, handlers.listResourceTemplates);
     server.setRequestHandler(ReadResourceRequestSchema, handlers.readResource);
+    server.setRequestHandler(SubscribeRequestSchema, handlers.subscribeResource);
+    server.setRequestHandler(UnsubscribeRequestSchema, handlers.unsubscribeResource);
     server.setRequestHandler(ListToolsRequestSchema, handlers.listTools);
     server.setRequestHandler(CallToolRequestSchema, handlers.callTool);
+    server.onclose = () => {
+        unwatchServers?.();
+        resourceWatcher.closeAll();
+        contexts.forEach((entry) => entry.subscriptions.closeAll());
+    };
 
     return server;
 }
@@ -0,0 +1,96 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
+import { isSqlStatementResult } from "./sql-results.js";
+
+export type ExportFormat = "csv" | "ndjson" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson", "json"];
+
+export interface ExportSummary {
+    path: string;
+    format: ExportFormat;
+    columns: string[];
+    rows: number;
+    bytes: number;
+}
+
+/**
+ * Caps the rows of each statement result (or of a plain row array) and records how many were left out.
+ */
+export function truncateSqlResult(data: unknown, maxRows: number): { data: unknown; omitted: number } {
+    if (!Array.isArray(data)) {
+        return { data, omitted: 0 };
+    }
+
+    if (data.every(isSqlStatementResult)) {
+        let omitted = 0;
+        const statements = data.map((statement) => {
+            const extra = Math.max(0, statement.rows.length - maxRows);
+            omitted += extra;
+            return extra > 0 ? { ...statement, rows: statement.rows.slice(0, maxRows), omitted_rows: extra } : statement;
+        });
+        return { data: statements, omitted };
+    }
+
+    return { data: data.slice(0, maxRows), omitted: Math.max(0, data.length - maxRows) };
+}
+
+/**
+ * Picks the single result set to export: the only statement that returned columns, or a plain row array.
+ */
+export function exportableRows(data: unknown): { columns: string[]; rows: Record<string, unknown>[] } | string {
+    if (Array.isArray(data) && data.every(isSqlStatementResult)) {
+        const withColumns = data.filter((statement) => statement.columns.length > 0);
+        if (withColumns.length !== 1) {
+            return `Export needs exactly one statement that returns rows, got ${withColumns.length}`;
+        }
+        return { columns: withColumns[0].columns, rows: withColumns[0].rows };
+    }
+
+    if (Array.isArray(data) && data.every((row) => typeof row === "object" && row !== null && !Array.isArray(row))) {
+        const columns = [...new Set(data.flatMap((row) => Object.keys(row as Record<string, unknown>)))];
+        return { columns, rows: data as Record<string, unknown>[] };
+    }
+
+    return "Query result is not a table of rows";
+}
+
+export function formatFromPath(path: string): ExportFormat | null {
+    const extension = extname(path).slice(1).toLowerCase();
+    if (extension === "jsonl") return "ndjson";
+    return EXPORT_FORMATS.includes(extension as ExportFormat) ? (extension as ExportFormat) : null;
+}
+
+export function serializeRows(format: ExportFormat, columns: string[], rows: Record<string, unknown>[]): string {
+    if (format === "json") {
+        return `${JSON.stringify(rows, null, 2)}\n`;
+    }
+    if (format === "ndjson") {
+        return rows.map((row) => `${JSON.stringify(row)}\n`).join("");
+    }
+
+    const lines = [columns.map(csvField).join(",")];
+    for (const row of rows) {
+        lines.push(columns.map((column) => csvField(row[column])).join(","));
+    }
+    return `${lines.join("\r\n")}\r\n`;
+}
+
+export async function exportRows(
+    path: string,
+    format: ExportFormat,
+    columns: string[],
+    rows: Record<string, unknown>[]
+): Promise<ExportSummary> {
+    const absolutePath = resolve(path);
+    const content = serializeRows(format, columns, rows);
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, content, "utf8");
+    return { path: absolutePath, format, columns, rows: rows.length, bytes: Buffer.byteLength(content) };
+}
+
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,238 @@
+import { isMutatingSql, splitSqlStatements } from "./policy.js";
+import { ParsedTable } from "./types.js";
+
+export interface SqlLintIssue {
+    severity: "error" | "warning";
+    message: string;
+    suggestion?: string;
+}
+
+export interface SqlStatementLint {
+    statement: string;
+    kind: "read" | "write";
+    tables: string[];
+    issues: SqlLintIssue[];
+}
+
+export interface SqlLintResult {
+    valid: boolean;
+    statements: SqlStatementLint[];
+}
+
+interface Token {
+    type: "word" | "quoted" | "string" | "number" | "symbol";
+    value: string;
+}
+
+const SUPPORTED_STATEMENTS = new Set(["SELECT", "INSERT", "UPDATE", "DELETE", "SET", "SHOW"]);
+
+const KEYWORDS = new Set([
+    "SELECT", "FROM", "WHERE", "AND", "OR", "NOT", "JOIN", "INNER", "ON", "AS", "LIMIT", "INSERT", "INTO", "VALUES",
+    "UPDATE", "SET", "DELETE", "NULL", "TRUE", "FALSE", "IS", "IN", "LIKE", "BETWEEN", "COUNT", "SHOW", "LEFT", "RIGHT",
+    "FULL", "OUTER", "CROSS", "NATURAL", "GROUP", "ORDER", "BY", "HAVING", "UNION", "DISTINCT", "OFFSET", "ASC", "DESC",
+    "EXISTS", "CASE", "WHEN", "THEN", "ELSE", "END", "ALL",
+]);
+
+// Parts of standard SQL that SpacetimeDB's dialect rejects
+const UNSUPPORTED_CLAUSES: [string[], string][] = [
+    [["LEFT"], "LEFT JOIN is not supported; only inner joins are"],
+    [["RIGHT"], "RIGHT JOIN is not supported; only inner joins are"],
+    [["FULL"], "FULL JOIN is not supported; only inner joins are"],
+    [["OUTER"], "OUTER JOIN is not supported; only inner joins are"],
+    [["CROSS"], "CROSS JOIN is not supported; use JOIN ... ON"],
+    [["NATURAL"], "NATURAL JOIN is not supported; use JOIN ... ON"],
+    [["GROUP", "BY"], "GROUP BY is not supported"],
+    [["HAVING"], "HAVING is not supported"],
+    [["ORDER", "BY"], "ORDER BY is not supported"],
+    [["UNION"], "UNION is not supported; run the queries separately"],
+    [["DISTINCT"], "DISTINCT is not supported"],
+    [["OFFSET"], "OFFSET is not supported; only LIMIT is"],
+];
+
+/**
+ * Checks SQL against SpacetimeDB's dialect and the database's tables before it is sent.
+ * The parser is deliberately shallow: it only reports problems it can be sure about.
+ */
+export function lintSql(query: string, tables: ParsedTable[]): SqlLintResult {
+    const statements = splitSqlStatements(query).map((statement) => lintStatement(statement, tables));
+    return {
+        valid: statements.every((statement) => statement.issues.every((issue) => issue.severity !== "error")),
+        statements,
+    };
+}
+
+/**
+ * True for a bare SQL identifier, the only form of table name that is safe to splice into a query.
+ */
+export function isPlainIdentifier(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+export function formatLintIssues(result: SqlLintResult): string {
+    return result.statements
+        .flatMap((statement) => statement.issues)
+        .map((issue) => `- ${issue.severity}: ${issue.message}${issue.suggestion ? ` (did you mean "${issue.suggestion}"?)` : ""}`)
+        .join("\n");
+}
+
+function lintStatement(statement: string, tables: ParsedTable[]): SqlStatementLint {
+    const tokens = tokenize(statement);
+    const issues: SqlLintIssue[] = [];
+    const upper = (i: number) => (tokens[i]?.type === "word" ? tokens[i].value.toUpperCase() : "");
+    const kind = isMutatingSql(statement) ? "write" : "read";
+
+    const command = upper(0);
+    if (!SUPPORTED_STATEMENTS.has(command)) {
+        issues.push({ severity: "error", message: `Unsupported statement "${tokens[0]?.value ?? ""}"; use SELECT, INSERT, UPDATE or DELETE` });
+        return { statement, kind, tables: [], issues };
+    }
+    if (command === "SET" || command === "SHOW") {
+        return { statement, kind, tables: [], issues };
+    }
+
+    for (const [words, message] of UNSUPPORTED_CLAUSES) {
+        if (tokens.some((_, i) => words.every((word, offset) => upper(i + offset) === word))) {
+            issues.push({ severity: "error", message });
+        }
+    }
+
+    if ((command === "UPDATE" || command === "DELETE") && !tokens.some((_, i) => upper(i) === "WHERE")) {
+        issues.push({ severity: "warning", message: `${command} without WHERE affects every row of the table` });
+    }
+
+    // Table references and their aliases
+    const aliases = new Map<string, ParsedTable | null>();
+    const referenced: string[] = [];
+    tokens.forEach((token, i) => {
+        const previous = upper(i - 1);
+        if (!isIdentifier(token) || !["FROM", "JOIN", "INTO", "UPDATE"].includes(previous)) return;
+        if (previous === "UPDATE" && i !== 1) return;
+
+        const table = tables.find((candidate) => candidate.name === token.value) ?? null;
+        referenced.push(token.value);
+        aliases.set(token.value, table);
+        if (!table) {
+            issues.push({
+                severity: "error",
+                message: `Unknown table "${token.value}"`,
+                suggestion: closestName(token.value, tables.map((candidate) => candidate.name)),
+            });
+        }
+
+        const aliasIndex = upper(i + 1) === "AS" ? i + 2 : i + 1;
+        const alias = tokens[aliasIndex];
+        if (alias && isIdentifier(alias) && !KEYWORDS.has(alias.value.toUpperCase())) {
+            aliases.set(alias.value, table);
+        }
+    });
+
+    const knownTables = [...aliases.values()].filter((table): table is ParsedTable => table !== null);
+    const allColumns = [...new Set(knownTables.flatMap((table) => table.columns.map((column) => column.name)))];
+    const unresolvedTables = referenced.some((name) => aliases.get(name) === null);
+
+    tokens.forEach((token, i) => {
+        const previous = upper(i - 1);
+        const next = tokens[i + 1];
+
+        if (token.type === "symbol" && token.value === "(" && upper(i + 1) === "SELECT") {
+            issues.push({ severity: "error", message: "Subqueries are not supported" });
+            return;
+        }
+
+        if (!isIdentifier(token) || (token.type === "word" && KEYWORDS.has(token.value.toUpperCase()))) {
+            if (upper(i) === "COUNT" && next?.value === "(" && tokens[i + 2]?.value !== "*") {
+                issues.push({ severity: "error", message: "Only COUNT(*) is supported" });
+            }
+            return;
+        }
+
+        // Skip table names, aliases, parameters like :sender, hex literals like X'01' and qualifiers
+        const before = tokens[i - 1];
+        if (["FROM", "JOIN", "INTO", "AS"].includes(previous) || (previous === "UPDATE" && i === 1)) return;
+        if (before && ((isIdentifier(before) && !KEYWORDS.has(before.value.toUpperCase())) || before.value === ")")) return;
+        if (before?.value === ":" || (token.value.toUpperCase() === "X" && next?.type === "string")) return;
+        if (next?.value === ".") return;
+
+        if (next?.type === "symbol" && next.value === "(") {
+            issues.push({ severity: "error", message: `Function ${token.value}() is not supported; the only aggregate is COUNT(*)` });
+            return;
+        }
+
+        const qualifier = tokens[i - 1]?.value === "." ? tokens[i - 2] : undefined;
+        if (qualifier) {
+            if (!aliases.has(qualifier.value)) {
+                issues.push({
+                    severity: "error",
+                    message: `Unknown table or alias "${qualifier.value}"`,
+                    suggestion: closestName(qualifier.value, [...aliases.keys()]),
+                });
+                return;
+            }
+            const table = aliases.get(qualifier.value);
+            if (table && !table.columns.some((column) => column.name === token.value)) {
+                issues.push({
+                    severity: "error",
+                    message: `Unknown column "${token.value}" in table "${table.name}"`,
+                    suggestion: closestName(token.value, table.columns.map((column) => column.name)),
+                });
+            }
+            return;
+        }
+
+        if (aliases.has(token.value)) return;
+        if (unresolvedTables || knownTables.length === 0) return;
+        if (!allColumns.includes(token.value)) {
+            issues.push({
+                severity: "error",
+                message: `Unknown column "${token.value}" in ${knownTables.map((table) => `"${table.name}"`).join(", ")}`,
+                suggestion: closestName(token.value, allColumns),
+            });
+        }
+    });
+
+    return { statement, kind, tables: referenced, issues };
+}
+
+function isIdentifier(token: Token): boolean {
+    return token.type === "word" || token.type === "quoted";
+}
+
+function tokenize(statement: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s*(?:([A-Za-z_][A-Za-z0-9_]*)|"((?:[^"]|"")*)"|'((?:[^']|'')*)'|(0x[0-9A-Fa-f]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|(<=|>=|<>|!=|\S))/gy;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(statement)) !== null && match[0] !== "") {
+        if (match[1] !== undefined) tokens.push({ type: "word", value: match[1] });
+        else if (match[2] !== undefined) tokens.push({ type: "quoted", value: match[2].replace(/""/g, '"') });
+        else if (match[3] !== undefined) tokens.push({ type: "string", value: match[3] });
+        else if (match[4] !== undefined) tokens.push({ type: "number", value: match[4] });
+        else if (match[5] !== undefined) tokens.push({ type: "symbol", value: match[5] });
+    }
+    return tokens;
+}
+
+function closestName(name: string, candidates: string[]): string | undefined {
+    const caseInsensitive = candidates.find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+    if (caseInsensitive) return caseInsensitive;
+
+    let best: { candidate: string; distance: number } | undefined;
+    for (const candidate of candidates) {
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (!best || distance < best.distance) {
+            best = { candidate, distance };
+        }
+    }
+    return best && best.distance <= Math.max(2, Math.floor(name.length / 3)) ? best.candidate : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
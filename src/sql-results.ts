@@ -0,0 +1,135 @@
+import { optionInner, specialTypeName } from "./schema.js";
+import { AlgebraicType, AlgebraicTypeElement, SqlStatementResult } from "./types.js";
+
+interface RawStatementResult {
+    schema: { elements: AlgebraicTypeElement[] };
+    rows: unknown[];
+    total_duration_micros?: number;
+}
+
+/**
+ * Turns the `/sql` response (one result per statement, positional rows plus a product schema)
+ * into rows keyed by column name. Responses in any other shape are returned unchanged.
+ */
+export function decodeSqlResults(data: unknown): unknown {
+    if (!Array.isArray(data) || !data.every(isRawStatementResult)) {
+        return data;
+    }
+
+    return data.map((statement): SqlStatementResult => {
+        const columns = statement.schema.elements.map((element, i) => element.name.some ?? `column${i}`);
+        const rows = statement.rows.map((row) => {
+            const values = Array.isArray(row) ? row : columns.map((column) => (row as Record<string, unknown>)?.[column]);
+            return Object.fromEntries(
+                statement.schema.elements.map((element, i) => [columns[i], decodeSatsValue(element.algebraic_type, values[i])])
+            );
+        });
+        return { columns, rows, total_duration_micros: statement.total_duration_micros };
+    });
+}
+
+/**
+ * Converts a SATS-JSON value into a readable form: special types become strings,
+ * options become the value or null, and sums become the variant name or `{ Variant: value }`.
+ */
+export function decodeSatsValue(type: AlgebraicType, value: unknown): unknown {
+    const [typeKey, typeValue] = Object.entries(type)[0] ?? [];
+
+    switch (typeKey) {
+        case "Array":
+            return Array.isArray(value) ? value.map((item) => decodeSatsValue(typeValue as AlgebraicType, item)) : value;
+        case "Option":
+            return decodeOption(typeValue as AlgebraicType, value);
+        case "Product":
+            return decodeProduct((typeValue as { elements: AlgebraicTypeElement[] }).elements, value);
+        case "Sum":
+            return decodeSum((typeValue as { variants: AlgebraicTypeElement[] }).variants, value);
+        default:
+            return value;
+    }
+}
+
+function decodeOption(inner: AlgebraicType, value: unknown): unknown {
+    if (isPlainObject(value) && "some" in value) return decodeSatsValue(inner, value.some);
+    if (isPlainObject(value) && "none" in value) return null;
+    return value;
+}
+
+function decodeProduct(elements: AlgebraicTypeElement[], value: unknown): unknown {
+    const special = specialTypeName({ elements });
+    if (special) {
+        const inner = Array.isArray(value) ? value[0] : isPlainObject(value) ? value[elements[0].name.some as string] : value;
+        return decodeSpecial(special, inner);
+    }
+
+    if (Array.isArray(value)) {
+        if (elements.some((element) => !element.name.some)) {
+            return value.map((item, i) => (elements[i] ? decodeSatsValue(elements[i].algebraic_type, item) : item));
+        }
+        return Object.fromEntries(
+            elements.map((element, i) => [element.name.some, decodeSatsValue(element.algebraic_type, value[i])])
+        );
+    }
+
+    if (isPlainObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => {
+                const element = elements.find((candidate) => candidate.name.some === key);
+                return [key, element ? decodeSatsValue(element.algebraic_type, item) : item];
+            })
+        );
+    }
+
+    return value;
+}
+
+function decodeSum(variants: AlgebraicTypeElement[], value: unknown): unknown {
+    const inner = optionInner({ variants });
+    if (inner) {
+        return decodeOption(inner, value);
+    }
+
+    if (!isPlainObject(value) || Object.keys(value).length !== 1) {
+        return value;
+    }
+
+    // Variants arrive keyed either by name or by tag index
+    const [key, payload] = Object.entries(value)[0];
+    const variant = variants.find((candidate) => candidate.name.some === key) ?? (/^\d+$/.test(key) ? variants[Number(key)] : undefined);
+    if (!variant) {
+        return value;
+    }
+
+    const name = variant.name.some ?? key;
+    const isUnit = "Product" in variant.algebraic_type && variant.algebraic_type.Product.elements.length === 0;
+    return isUnit ? name : { [name]: decodeSatsValue(variant.algebraic_type, payload) };
+}
+
+function decodeSpecial(special: string, value: unknown): unknown {
+    if (special === "Timestamp" && (typeof value === "number" || typeof value === "string")) {
+        const millis = Number(value) / 1000;
+        return Number.isFinite(millis) ? new Date(millis).toISOString() : value;
+    }
+    if (special === "TimeDuration" && (typeof value === "number" || typeof value === "string")) {
+        return `${Number(value) / 1_000_000}s`;
+    }
+    return value;
+}
+
+export function isSqlStatementResult(value: unknown): value is SqlStatementResult {
+    const statement = value as Partial<SqlStatementResult> | null;
+    return typeof value === "object" && Array.isArray(statement?.columns) && Array.isArray(statement?.rows);
+}
+
+function isRawStatementResult(value: unknown): value is RawStatementResult {
+    return (
+        isPlainObject(value) &&
+        isPlainObject(value.schema) &&
+        Array.isArray(value.schema.elements) &&
+        Array.isArray(value.rows)
+    );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
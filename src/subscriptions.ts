@@ -0,0 +1,298 @@
+import WebSocket from "ws";
+import { SubscriptionEvent, ToolResult } from "./types.js";
+
+export interface SubscriptionSocket {
+    on(event: "open", listener: () => void): unknown;
+    on(event: "message", listener: (data: unknown) => void): unknown;
+    on(event: "error", listener: (error: Error) => void): unknown;
+    on(event: "close", listener: () => void): unknown;
+    send(data: string): void;
+    close(): void;
+}
+
+export interface SubscriptionManagerConfig {
+    host: string;
+    token: string;
+    getToken?: () => string;
+    maxBufferedEvents?: number;
+    initialTimeoutMs?: number;
+    createSocket?: (url: string, protocol: string, headers: Record<string, string>) => SubscriptionSocket;
+}
+
+interface Subscription {
+    id: string;
+    database: string;
+    queries: string[];
+    socket: SubscriptionSocket;
+    status: "connecting" | "active" | "closed" | "error";
+    error?: string;
+    onChange?: () => void;
+    events: SubscriptionEvent[];
+    nextSeq: number;
+    dropped: number;
+}
+
+interface TableUpdate {
+    table_name: string;
+    updates?: unknown[];
+}
+
+// The parts of the JSON protocol's server messages that subscriptions read
+interface ServerMessage {
+    InitialSubscription?: { database_update?: { tables?: TableUpdate[] } };
+    SubscribeMultiApplied?: { update?: { tables?: TableUpdate[] } };
+    SubscriptionError?: { error?: unknown };
+    TransactionUpdate?: {
+        status?: { Committed?: { tables?: TableUpdate[] } };
+        reducer_call?: { reducer_name?: string };
+    };
+    TransactionUpdateLight?: { update?: { tables?: TableUpdate[] } };
+}
+
+const PROTOCOL = "v1.json.spacetimedb";
+
+export class SubscriptionManager {
+    private subscriptions = new Map<string, Subscription>();
+    private nextId = 1;
+    private nextRequestId = 1;
+    private host: string;
+    private token: string;
+    private getToken?: () => string;
+    private maxBufferedEvents: number;
+    private initialTimeoutMs: number;
+    private createSocket: NonNullable<SubscriptionManagerConfig["createSocket"]>;
+
+    constructor(config: SubscriptionManagerConfig) {
+        this.host = config.host;
+        this.token = config.token;
+        this.getToken = config.getToken;
+        this.maxBufferedEvents = config.maxBufferedEvents ?? 1000;
+        this.initialTimeoutMs = config.initialTimeoutMs ?? 10000;
+        this.createSocket = config.createSocket ?? ((url, protocol, headers) => new WebSocket(url, protocol, { headers }));
+    }
+
+    async subscribe(database: string, queries: string[], onChange?: () => void): Promise<ToolResult> {
+        const url = `${this.host.replace(/^http/, "ws").replace(/\/$/, "")}/v1/database/${encodeURIComponent(database)}/subscribe`;
+        const token = this.getToken?.() ?? this.token;
+        const headers: Record<string, string> = token ? { Authorization: `Bearer ${token}` } : {};
+
+        let socket: SubscriptionSocket;
+        try {
+            socket = this.createSocket(url, PROTOCOL, headers);
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            return { success: false, error: `Failed to open subscription: ${message}` };
+        }
+
+        const subscription: Subscription = {
+            id: `sub-${this.nextId++}`,
+            database,
+            queries,
+            socket,
+            status: "connecting",
+            events: [],
+            nextSeq: 1,
+            dropped: 0,
+            onChange,
+        };
+        this.subscriptions.set(subscription.id, subscription);
+
+        const ready = new Promise<void>((resolve) => {
+            const timer = setTimeout(() => {
+                if (subscription.status === "connecting") {
+                    this.fail(subscription, "Timed out waiting for the initial subscription data");
+                }
+                resolve();
+            }, this.initialTimeoutMs);
+
+            const settle = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+
+            socket.on("open", () => {
+                socket.send(
+                    JSON.stringify({
+                        Subscribe: { query_strings: queries, request_id: this.nextRequestId++ },
+                    })
+                );
+            });
+            socket.on("message", (data) => {
+                this.handleMessage(subscription, data);
+                if (subscription.status !== "connecting") settle();
+            });
+            socket.on("error", (error) => {
+                this.fail(subscription, error.message);
+                settle();
+            });
+            socket.on("close", () => {
+                if (subscription.status === "connecting" || subscription.status === "active") {
+                    subscription.status = "closed";
+                }
+                settle();
+            });
+        });
+
+        await ready;
+
+        if (subscription.status !== "active") {
+            this.subscriptions.delete(subscription.id);
+            return {
+                success: false,
+                error: `Subscription failed: ${subscription.error ?? "connection closed"}`,
+            };
+        }
+
+        const initialRows: Record<string, number> = {};
+        for (const event of subscription.events) {
+            initialRows[event.table] = (initialRows[event.table] ?? 0) + 1;
+        }
+
+        return {
+            success: true,
+            data: { subscription_id: subscription.id, database, queries, initial_rows: initialRows },
+        };
+    }
+
+    poll(id: string, maxEvents?: number): ToolResult {
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            return { success: false, error: `Subscription "${id}" not found` };
+        }
+
+        const count = maxEvents && maxEvents > 0 ? maxEvents : subscription.events.length;
+        const events = subscription.events.splice(0, count);
+        const dropped = subscription.dropped;
+        subscription.dropped = 0;
+
+        return {
+            success: true,
+            data: {
+                subscription_id: id,
+                status: subscription.status,
+                error: subscription.error,
+                events,
+                remaining: subscription.events.length,
+                dropped,
+            },
+        };
+    }
+
+    unsubscribe(id: string): ToolResult {
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            return { success: false, error: `Subscription "${id}" not found` };
+        }
+
+        subscription.status = "closed";
+        subscription.socket.close();
+        this.subscriptions.delete(id);
+        return { success: true, data: { subscription_id: id, status: "closed" } };
+    }
+
+    closeAll(): void {
+        for (const id of [...this.subscriptions.keys()]) {
+            this.unsubscribe(id);
+        }
+    }
+
+    private fail(subscription: Subscription, error: string): void {
+        subscription.status = "error";
+        subscription.error = error;
+        subscription.socket.close();
+    }
+
+    private handleMessage(subscription: Subscription, data: unknown): void {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(String(data));
+        } catch {
+            return;
+        }
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+            return;
+        }
+        const message: ServerMessage = parsed;
+
+        if (message.InitialSubscription) {
+            this.bufferTables(subscription, message.InitialSubscription.database_update?.tables, "initial");
+            subscription.status = "active";
+            return;
+        }
+
+        if (message.SubscribeMultiApplied) {
+            this.bufferTables(subscription, message.SubscribeMultiApplied.update?.tables, "initial");
+            subscription.status = "active";
+            return;
+        }
+
+        if (message.SubscriptionError) {
+            this.fail(subscription, String(message.SubscriptionError.error ?? "Subscription error"));
+            return;
+        }
+
+        if (message.TransactionUpdate) {
+            const update = message.TransactionUpdate;
+            const committed = update.status?.Committed;
+            if (!committed) return;
+            const buffered = this.bufferTables(subscription, committed.tables, "update", update.reducer_call?.reducer_name);
+            if (buffered > 0) subscription.onChange?.();
+            return;
+        }
+
+        if (message.TransactionUpdateLight) {
+            const buffered = this.bufferTables(subscription, message.TransactionUpdateLight.update?.tables, "update");
+            if (buffered > 0) subscription.onChange?.();
+        }
+    }
+
+    private bufferTables(
+        subscription: Subscription,
+        tables: TableUpdate[] | undefined,
+        phase: "initial" | "update",
+        reducer?: string
+    ): number {
+        let buffered = 0;
+        for (const table of tables ?? []) {
+            for (const rawUpdate of table.updates ?? []) {
+                // Compressible updates wrap the row lists in `Uncompressed`
+                const update = ((rawUpdate as { Uncompressed?: unknown }).Uncompressed ?? rawUpdate) as {
+                    deletes?: unknown[];
+                    inserts?: unknown[];
+                };
+                for (const row of update.deletes ?? []) {
+                    buffered++;
+                    this.push(subscription, { kind: "delete", table: table.table_name, row: decodeRow(row), reducer });
+                }
+                for (const row of update.inserts ?? []) {
+                    buffered++;
+                    this.push(subscription, {
+                        kind: phase === "initial" ? "initial" : "insert",
+                        table: table.table_name,
+                        row: decodeRow(row),
+                        reducer,
+                    });
+                }
+            }
+        }
+        return buffered;
+    }
+
+    private push(subscription: Subscription, event: Omit<SubscriptionEvent, "seq" | "receivedAt">): void {
+        subscription.events.push({ ...event, seq: subscription.nextSeq++, receivedAt: new Date() });
+        if (subscription.events.length > this.maxBufferedEvents) {
+            subscription.events.shift();
+            subscription.dropped++;
+        }
+    }
+}
+
+function decodeRow(row: unknown): unknown {
+    // The JSON protocol sends each row as its own JSON-encoded string
+    if (typeof row !== "string") return row;
+    try {
+        return JSON.parse(row);
+    } catch {
+        return row;
+    }
+}
@@ -4,7 +4,7 @@ export type StdbPrimitiveType =
     | "I32" | "U32" | "F32"
     | "I64" | "U64" | "F64"
     | "I128" | "U128"
-    | "U256"
+    | "I256" | "U256"
     | "Bool"
     | "String";
 
@@ -79,6 +79,16 @@ export interface LogLine {
     message: string;
 }
 
+export interface LogQueryOptions {
+    level?: string;
+    target?: string;
+    filename?: string;
+    since?: string;
+    until?: string;
+    pattern?: string;
+    format?: "text" | "json";
+}
+
 export interface ParsedParam {
     name: string;
     type: string;
@@ -96,6 +106,21 @@ export interface ParsedReducer {
     lifecycle: "Init" | "OnDisconnect" | "OnConnect" | null;
 }
 
+export interface SubscriptionEvent {
+    seq: number;
+    kind: "initial" | "insert" | "delete";
+    table: string;
+    row: unknown;
+    reducer?: string;
+    receivedAt: Date;
+}
+
+export interface SqlStatementResult {
+    columns: string[];
+    rows: Record<string, unknown>[];
+    total_duration_micros?: number;
+}
+
 export interface ToolResult {
     success: boolean;
     data?: unknown;
@@ -0,0 +1,225 @@
+import { resolveType, specialTypeName } from "./schema.js";
+import { AlgebraicType, AlgebraicTypeElement, RawReducer, RawSchema } from "./types.js";
+
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+    I8: [-(2n ** 7n), 2n ** 7n - 1n],
+    U8: [0n, 2n ** 8n - 1n],
+    I16: [-(2n ** 15n), 2n ** 15n - 1n],
+    U16: [0n, 2n ** 16n - 1n],
+    I32: [-(2n ** 31n), 2n ** 31n - 1n],
+    U32: [0n, 2n ** 32n - 1n],
+    I64: [-(2n ** 63n), 2n ** 63n - 1n],
+    U64: [0n, 2n ** 64n - 1n],
+    I128: [-(2n ** 127n), 2n ** 127n - 1n],
+    U128: [0n, 2n ** 128n - 1n],
+    I256: [-(2n ** 255n), 2n ** 255n - 1n],
+    U256: [0n, 2n ** 256n - 1n],
+};
+
+// Wider integers may be sent as decimal strings because JSON numbers lose precision past 2^53
+const STRING_INTEGERS = new Set(["I64", "U64", "I128", "U128", "I256", "U256"]);
+
+/**
+ * Checks reducer arguments against the reducer's parameter types.
+ * Returns one message per problem, each starting with the path of the offending value.
+ */
+export function validateReducerArgs(schema: RawSchema, reducer: RawReducer, args: unknown[]): string[] {
+    const params = reducer.params.elements;
+    if (args.length !== params.length) {
+        const signature = params.map((param, i) => `${param.name.some ?? `arg${i}`}: ${resolveType(schema, param.algebraic_type)}`);
+        return [`args: expected ${params.length} argument(s) (${signature.join(", ")}), got ${args.length}`];
+    }
+
+    const errors: string[] = [];
+    params.forEach((param, i) => {
+        const label = param.name.some ? `args[${i}] (${param.name.some})` : `args[${i}]`;
+        validateValue(schema, param.algebraic_type, args[i], label, errors);
+    });
+    return errors;
+}
+
+function validateValue(
+    schema: RawSchema,
+    type: AlgebraicType,
+    value: unknown,
+    path: string,
+    errors: string[],
+    namedAs?: string
+): void {
+    const [typeKey, typeValue] = Object.entries(type)[0] ?? [];
+    const expected = namedAs ?? resolveType(schema, type);
+    const mismatch = () => errors.push(`${path}: expected ${expected}, got ${describeValue(value)}`);
+
+    if (typeKey && typeKey in INTEGER_RANGES) {
+        let parsed: bigint | null = null;
+        if (typeof value === "number" && Number.isInteger(value)) {
+            parsed = BigInt(value);
+        } else if (typeof value === "string" && STRING_INTEGERS.has(typeKey) && /^-?\d+$/.test(value)) {
+            parsed = BigInt(value);
+        }
+        if (parsed === null) {
+            mismatch();
+            return;
+        }
+        const [min, max] = INTEGER_RANGES[typeKey];
+        if (parsed < min || parsed > max) {
+            errors.push(`${path}: ${value} is out of range for ${typeKey} (${min} to ${max})`);
+        }
+        return;
+    }
+
+    switch (typeKey) {
+        case "F32":
+        case "F64":
+            if (typeof value !== "number") mismatch();
+            return;
+        case "Bool":
+            if (typeof value !== "boolean") mismatch();
+            return;
+        case "String":
+            if (typeof value !== "string") mismatch();
+            return;
+        case "Array": {
+            if (!Array.isArray(value)) {
+                mismatch();
+                return;
+            }
+            value.forEach((item, i) => validateValue(schema, typeValue as AlgebraicType, item, `${path}[${i}]`, errors));
+            return;
+        }
+        case "Option":
+            validateOption(schema, typeValue as AlgebraicType, value, path, expected, errors);
+            return;
+        case "Ref": {
+            const resolved = schema.typespace.types[typeValue as number] as AlgebraicType | undefined;
+            if (!resolved) {
+                errors.push(`${path}: schema references unknown type Ref(${typeValue})`);
+                return;
+            }
+            validateValue(schema, resolved, value, path, errors, expected);
+            return;
+        }
+        case "Product":
+            validateProduct(schema, (typeValue as { elements: AlgebraicTypeElement[] }).elements, value, path, expected, errors);
+            return;
+        case "Sum":
+            validateSum(
+                schema,
+                (typeValue as { variants: AlgebraicTypeElement[] }).variants,
+                value,
+                path,
+                expected,
+                errors
+            );
+            return;
+        default:
+            return;
+    }
+}
+
+function validateOption(
+    schema: RawSchema,
+    inner: AlgebraicType,
+    value: unknown,
+    path: string,
+    expected: string,
+    errors: string[]
+): void {
+    if (!isPlainObject(value)) {
+        errors.push(`${path}: expected ${expected} as {"some": value} or {"none": []}, got ${describeValue(value)}`);
+        return;
+    }
+    if ("some" in value) {
+        validateValue(schema, inner, value.some, `${path}.some`, errors);
+    } else if (!("none" in value)) {
+        errors.push(`${path}: expected ${expected} as {"some": value} or {"none": []}, got ${describeValue(value)}`);
+    }
+}
+
+function validateProduct(
+    schema: RawSchema,
+    elements: AlgebraicTypeElement[],
+    value: unknown,
+    path: string,
+    expected: string,
+    errors: string[]
+): void {
+    const special = specialTypeName({ elements });
+    if (special) {
+        // SQL results and other SATS-JSON encoders may also wrap the value in a one-element array
+        const inner = isPlainObject(value)
+            ? value[elements[0].name.some as string]
+            : Array.isArray(value) && value.length === 1 ? value[0] : value;
+        if (typeof inner !== "string" && typeof inner !== "number") {
+            errors.push(`${path}: expected ${special} as a hex string or number, got ${describeValue(value)}`);
+        }
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        if (value.length !== elements.length) {
+            errors.push(`${path}: expected ${expected} with ${elements.length} field(s), got an array of ${value.length}`);
+            return;
+        }
+        elements.forEach((element, i) => {
+            validateValue(schema, element.algebraic_type, value[i], `${path}.${element.name.some ?? i}`, errors);
+        });
+        return;
+    }
+
+    if (!isPlainObject(value)) {
+        errors.push(`${path}: expected ${expected} as an object or array, got ${describeValue(value)}`);
+        return;
+    }
+
+    const known = new Set(elements.map((element) => element.name.some));
+    for (const key of Object.keys(value)) {
+        if (!known.has(key)) {
+            errors.push(`${path}.${key}: unknown field for ${expected}`);
+        }
+    }
+    for (const element of elements) {
+        const field = element.name.some;
+        if (!field) continue;
+        if (!(field in value)) {
+            errors.push(`${path}.${field}: missing field of type ${resolveType(schema, element.algebraic_type)}`);
+            continue;
+        }
+        validateValue(schema, element.algebraic_type, value[field], `${path}.${field}`, errors);
+    }
+}
+
+function validateSum(
+    schema: RawSchema,
+    variants: AlgebraicTypeElement[],
+    value: unknown,
+    path: string,
+    expected: string,
+    errors: string[]
+): void {
+    const names = variants.map((variant) => variant.name.some ?? "");
+    const keys = isPlainObject(value) ? Object.keys(value) : [];
+    if (!isPlainObject(value) || keys.length !== 1) {
+        errors.push(`${path}: expected ${expected} as an object with exactly one of: ${names.join(", ")}; got ${describeValue(value)}`);
+        return;
+    }
+
+    const variant = variants.find((candidate) => candidate.name.some === keys[0]);
+    if (!variant) {
+        errors.push(`${path}: unknown variant "${keys[0]}" for ${expected}; expected one of: ${names.join(", ")}`);
+        return;
+    }
+    validateValue(schema, variant.algebraic_type, value[keys[0]], `${path}.${keys[0]}`, errors);
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "string") return `string ${JSON.stringify(value)}`;
+    if (typeof value === "number" || typeof value === "boolean") return `${typeof value} ${value}`;
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -90,7 +90,7 @@ describe("SpacetimeClient", () => {
             .reply(500, { error: "nope" });
 
         const success = await client.getSchema("strc");
-        const failure = await client.getSchema("strc");
+        const failure = await client.getSchema("strc", "text", true);
 
         expect(success.success).toBe(true);
         expect(String(success.data)).toContain("TABLES (1)");
@@ -100,12 +100,162 @@ describe("SpacetimeClient", () => {
         expect(String(success.data)).toContain("profile: Profile");
         expect(String(success.data)).toContain("identity: Identity");
         expect(String(success.data)).toContain("CreateUser [Init]");
-        expect(String(success.data)).toContain("role: Enum");
+        expect(String(success.data)).toContain("role: enum {}");
+        expect(String(success.data)).toContain("TYPES (2)");
+        expect(String(success.data)).toContain("• struct Profile");
 
         expect(failure.success).toBe(false);
         expect(failure.error).toContain("HTTP 500");
     });
 
+    it("expands enums, inline structs and recursive types in the TYPES section", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const schema: RawSchema = {
+            tables: [],
+            reducers: [
+                {
+                    name: "configure",
+                    lifecycle: {},
+                    params: {
+                        elements: [
+                            {
+                                name: { some: "offset" },
+                                algebraic_type: {
+                                    Product: {
+                                        elements: [
+                                            { name: { some: "dx" }, algebraic_type: { I32: {} } },
+                                            { name: { some: "dy" }, algebraic_type: { I32: {} } },
+                                        ],
+                                    },
+                                },
+                            },
+                            {
+                                name: { some: "label" },
+                                algebraic_type: {
+                                    Sum: {
+                                        variants: [
+                                            { name: { some: "some" }, algebraic_type: { String: {} } },
+                                            { name: { some: "none" }, algebraic_type: { Product: { elements: [] } } },
+                                        ],
+                                    },
+                                },
+                            },
+                            { name: { some: "anonymous" }, algebraic_type: { Ref: 2 } },
+                        ],
+                    },
+                },
+            ],
+            typespace: {
+                types: [
+                    {
+                        Sum: {
+                            variants: [
+                                { name: { some: "Idle" }, algebraic_type: { Product: { elements: [] } } },
+                                { name: { some: "Moving" }, algebraic_type: { Ref: 1 } },
+                            ],
+                        },
+                    },
+                    {
+                        Product: {
+                            elements: [
+                                { name: { some: "speed" }, algebraic_type: { F32: {} } },
+                                { name: { some: "next" }, algebraic_type: { Option: { Ref: 1 } } },
+                            ],
+                        },
+                    },
+                    {
+                        Product: {
+                            elements: [{ name: { some: "self_ref" }, algebraic_type: { Array: { Ref: 2 } } }],
+                        },
+                    },
+                ],
+            },
+            types: [
+                { name: { scope: ["game"], name: "State" }, ty: 0, custom_ordering: false },
+                { name: { scope: [], name: "Motion" }, ty: 1, custom_ordering: false },
+            ],
+        };
+
+        nock(HOST)
+            .get("/v1/database/strc/schema")
+            .query({ version: 9 })
+            .reply(200, schema);
+
+        const output = String((await client.getSchema("strc")).data);
+
+        expect(output).toContain("offset: { dx: I32, dy: I32 }");
+        expect(output).toContain("label: Option<String>");
+        expect(output).toContain("anonymous: { self_ref: Array<Ref(2)> }");
+        expect(output).toContain("• enum game::State\n    Idle\n    Moving(Motion)");
+        expect(output).toContain("• struct Motion\n    speed: F32\n    next: Option<Motion>");
+    });
+
+    it("parses tables from the schema endpoint", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const schema: RawSchema = {
+            tables: [{ name: "users", product_type_ref: 0 }],
+            reducers: [],
+            typespace: {
+                types: [
+                    {
+                        Product: {
+                            elements: [{ name: { some: "id" }, algebraic_type: { U64: {} } }],
+                        },
+                    },
+                ],
+            },
+            types: [{ name: { scope: [], name: "User" }, ty: 0, custom_ordering: false }],
+        };
+
+        nock(HOST)
+            .get("/v1/database/strc/schema")
+            .query({ version: 9 })
+            .reply(200, schema);
+
+        const result = await client.getTables("strc");
+
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual([
+            { name: "users", columns: [{ name: "id", type: "U64", fullType: "U64" }] },
+        ]);
+    });
+
+    it("caches schemas until the TTL passes and the module hash changes", async () => {
+        let now = 0;
+        const client = new SpacetimeClient({ host: HOST, token: "token", schemaCacheTtlMs: 1000, now: () => now });
+        const schema: RawSchema = { tables: [], reducers: [], typespace: { types: [] }, types: [] };
+
+        const moduleHash = (hash: string) => [{ schema: { elements: [] }, rows: [[[hash]]] }];
+        nock(HOST).get("/v1/database/strc/schema").query({ version: 9 }).reply(200, schema);
+        nock(HOST).post("/v1/database/strc/sql", "SELECT program_hash FROM st_module").times(3).reply(200, moduleHash("0xabc"));
+
+        await client.getRawSchema("strc");
+        await client.getTables("strc");
+        expect(nock.pendingMocks()).toHaveLength(1);
+
+        // Every expiry only compares the module hash recorded with the schema
+        now = 1500;
+        await client.getRawSchema("strc");
+        now = 3000;
+        const cached = await client.getRawSchema("strc");
+        expect(cached).toEqual({ success: true, data: schema });
+        expect(nock.isDone()).toBe(true);
+
+        // An update rewrites the hash, which fetches the schema again
+        const updated = { ...schema, reducers: [{ name: "reset", lifecycle: {}, params: { elements: [] } }] };
+        nock(HOST).post("/v1/database/strc/sql", "SELECT program_hash FROM st_module").reply(200, moduleHash("0xdef"));
+        nock(HOST).get("/v1/database/strc/schema").query({ version: 9 }).reply(200, updated);
+        now = 4500;
+        expect(await client.getRawSchema("strc")).toEqual({ success: true, data: updated });
+        expect(nock.isDone()).toBe(true);
+
+        client.invalidateSchema("strc");
+        nock(HOST).post("/v1/database/strc/sql", "SELECT program_hash FROM st_module").reply(200, moduleHash("0xdef"));
+        nock(HOST).get("/v1/database/strc/schema").query({ version: 9 }).reply(200, schema);
+        await client.getRawSchema("strc");
+        expect(nock.isDone()).toBe(true);
+    });
+
     it("handles SQL and reducer calls", async () => {
         const client = new SpacetimeClient({ host: HOST, token: "token" });
 
@@ -137,6 +287,59 @@ describe("SpacetimeClient", () => {
         expect(reducerFailure.error).toContain("HTTP 500");
     });
 
+    it("decodes SQL statement results into rows keyed by column name", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const unit = { Product: { elements: [] } };
+        nock(HOST)
+            .post("/v1/database/strc/sql")
+            .reply(200, [
+                {
+                    schema: {
+                        elements: [
+                            { name: { some: "owner" }, algebraic_type: { Product: { elements: [{ name: { some: "__identity__" }, algebraic_type: { U256: [] } }] } } },
+                            { name: { some: "nickname" }, algebraic_type: { Sum: { variants: [{ name: { some: "some" }, algebraic_type: { String: [] } }, { name: { some: "none" }, algebraic_type: unit }] } } },
+                            { name: { some: "role" }, algebraic_type: { Sum: { variants: [{ name: { some: "Admin" }, algebraic_type: unit }, { name: { some: "Banned" }, algebraic_type: { String: [] } }] } } },
+                            { name: { some: "created_at" }, algebraic_type: { Product: { elements: [{ name: { some: "__timestamp_micros_since_unix_epoch__" }, algebraic_type: { I64: [] } }] } } },
+                        ],
+                    },
+                    rows: [
+                        [["0xc200"], { some: "ada" }, { "0": [] }, [1700000000000000]],
+                        [["0xc201"], { none: [] }, { Banned: "spam" }, [0]],
+                    ],
+                    total_duration_micros: 42,
+                },
+            ]);
+
+        const result = await client.runSql("strc", "SELECT * FROM users");
+
+        expect(result.data).toEqual([
+            {
+                columns: ["owner", "nickname", "role", "created_at"],
+                rows: [
+                    { owner: "0xc200", nickname: "ada", role: "Admin", created_at: "2023-11-14T22:13:20.000Z" },
+                    { owner: "0xc201", nickname: null, role: { Banned: "spam" }, created_at: "1970-01-01T00:00:00.000Z" },
+                ],
+                total_duration_micros: 42,
+            },
+        ]);
+    });
+
+    it("returns the undecoded SQL response with raw", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const body = [
+            {
+                schema: { elements: [{ name: { some: "owner" }, algebraic_type: { Product: { elements: [{ name: { some: "__identity__" }, algebraic_type: { U256: [] } }] } } }] },
+                rows: [[["0xc200"]]],
+                total_duration_micros: 7,
+            },
+        ];
+        nock(HOST).post("/v1/database/strc/sql").reply(200, body);
+
+        const result = await client.runSql("strc", "SELECT owner FROM users", true);
+
+        expect(result.data).toEqual(body);
+    });
+
     it("formats logs, handles empty logs, and 404 responses", async () => {
         const client = new SpacetimeClient({ host: HOST, token: "token" });
 
@@ -178,6 +381,92 @@ describe("SpacetimeClient", () => {
         expect(missing.error).toContain("not found");
     });
 
+    it("filters logs and returns structured lines as JSON", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const lines = [
+            { level: "Info", ts: 1700000000000000, target: "game::world", filename: "src/world.rs", line_number: 10, message: "tick" },
+            { level: "Error", ts: 1700000001000000, target: "game::combat", filename: "src/combat.rs", line_number: 42, message: "panic in attack" },
+            { level: "Warn", ts: 1700000002000000, target: "game::combat", filename: "src/combat.rs", line_number: 77, message: "slow reducer" },
+        ];
+
+        nock(HOST).get("/v1/database/strc/logs").query({ num_lines: 50 }).times(3).reply(200, lines);
+
+        const json = await client.getLogs("strc", 50, { level: "warn", target: "game::combat", format: "json" });
+        const windowed = await client.getLogs("strc", 50, {
+            since: "2023-11-14T22:13:21.000Z",
+            pattern: "^slow",
+        });
+        const invalid = await client.getLogs("strc", 50, { pattern: "(" });
+
+        expect(json.success).toBe(true);
+        expect(json.data).toMatchObject([
+            { level: "error", filename: "src/combat.rs", line_number: 42 },
+            { level: "warn", filename: "src/combat.rs", line_number: 77 },
+        ]);
+        expect(String(windowed.data)).toContain("slow reducer");
+        expect(String(windowed.data)).not.toContain("panic in attack");
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain("Invalid message pattern");
+    });
+
+    it("tails logs from a cursor without repeating lines", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token" });
+        const line = (ts: number, message: string) => ({
+            level: "info",
+            ts,
+            target: "server",
+            filename: "main.rs",
+            line_number: 1,
+            message,
+        });
+
+        nock(HOST)
+            .get("/v1/database/strc/logs")
+            .query({ num_lines: 100 })
+            .reply(200, [line(1000000, "first"), line(2000000, "second")]);
+        nock(HOST)
+            .get("/v1/database/strc/logs")
+            .query({ num_lines: 100 })
+            .reply(200, [line(1000000, "first"), line(2000000, "second"), line(2000000, "third"), line(3000000, "fourth")]);
+
+        const initial = await client.tailLogs("strc");
+        const initialData = initial.data as { cursor: string; count: number; logs: string };
+        const next = await client.tailLogs("strc", initialData.cursor);
+        const nextData = next.data as { cursor: string; count: number; logs: string; truncated: boolean };
+        const invalid = await client.tailLogs("strc", "not-a-cursor");
+
+        expect(initialData.count).toBe(2);
+        expect(initialData.cursor).toBe("2000:1");
+        expect(nextData.count).toBe(2);
+        expect(nextData.logs).toContain("third");
+        expect(nextData.logs).toContain("fourth");
+        expect(nextData.logs).not.toContain("second");
+        expect(nextData.cursor).toBe("3000:1");
+        expect(nextData.truncated).toBe(false);
+        expect(invalid.success).toBe(false);
+        expect(invalid.error).toContain("Invalid cursor");
+    });
+
+    it("starts the tail cursor at the current time when the log is empty", async () => {
+        const client = new SpacetimeClient({ host: HOST, token: "token", now: () => 5000 });
+        const line = (ts: number, message: string) => ({ level: "info", ts, target: "server", message });
+
+        nock(HOST).get("/v1/database/strc/logs").query({ num_lines: 100 }).reply(200, []);
+        nock(HOST)
+            .get("/v1/database/strc/logs")
+            .query({ num_lines: 100 })
+            .reply(200, [line(4000000, "before"), line(6000000, "after")]);
+
+        const initial = await client.tailLogs("strc");
+        const initialData = initial.data as { cursor: string; count: number };
+        const next = await client.tailLogs("strc", initialData.cursor);
+        const nextData = next.data as { count: number; logs: string };
+
+        expect(initialData).toMatchObject({ cursor: "5000:0", count: 0 });
+        expect(nextData.count).toBe(1);
+        expect(nextData.logs).toContain("after");
+    });
+
     it("handles database management endpoints", async () => {
         const client = new SpacetimeClient({ host: HOST, token: "token" });
 
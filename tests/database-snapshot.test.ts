@@ -0,0 +1,63 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { columnsWithUnsafeIntegers, readDatabaseSnapshot, SNAPSHOT_FORMAT_VERSION, writeDatabaseSnapshot } from "../src/database-snapshot.js";
+import { ParsedTable, RawSchema } from "../src/types.js";
+
+const schema: RawSchema = { tables: [], reducers: [], typespace: { types: [] }, types: [] };
+
+describe("database snapshots", () => {
+    it("reads back what it wrote", async () => {
+        const written = await writeDatabaseSnapshot(
+            mkdtempSync(join(tmpdir(), "stdb-snapshot-")),
+            { database: "game", host: "http://localhost:3000", exportedAt: new Date("2026-10-19T12:00:00.123Z") },
+            schema,
+            [{ table: "players", columns: ["id", "name"], rows: [[1, "ada"]] }]
+        );
+
+        const read = await readDatabaseSnapshot(written.path);
+
+        expect(written.path).toMatch(/game-20261019T120000Z$/);
+        expect(read.manifest.tables).toEqual([{ name: "players", file: "tables/players.json", rows: 1 }]);
+        expect(read.tables).toEqual([{ table: "players", columns: ["id", "name"], rows: [[1, "ada"]] }]);
+    });
+
+    it("refuses manifest entries that point outside the snapshot", async () => {
+        const root = mkdtempSync(join(tmpdir(), "stdb-snapshot-"));
+        const path = join(root, "snapshot");
+        mkdirSync(path);
+        writeFileSync(join(root, "secret.json"), JSON.stringify({ table: "secret", columns: [], rows: [] }));
+        writeFileSync(join(path, "schema.json"), JSON.stringify(schema));
+        writeFileSync(
+            join(path, "manifest.json"),
+            JSON.stringify({
+                format_version: SNAPSHOT_FORMAT_VERSION,
+                database: "game",
+                host: "",
+                exported_at: "",
+                tables: [{ name: "secret", file: "../secret.json", rows: 0 }],
+            })
+        );
+
+        await expect(readDatabaseSnapshot(path)).rejects.toThrow("Snapshot file ../secret.json is outside of");
+    });
+
+    it("reports columns holding integers that JSON parsing rounded", () => {
+        const table: ParsedTable = {
+            name: "accounts",
+            columns: [
+                { name: "id", type: "U64", fullType: "U64" },
+                { name: "balance", type: "U128", fullType: "U128" },
+                { name: "limits", type: "Option", fullType: "Option<U64>" },
+                { name: "ratio", type: "F64", fullType: "F64" },
+            ],
+        };
+        const rows = [
+            [1, 2 ** 60, { some: 5 }, 1e20],
+            [2, 3, { some: 2 ** 64 }, 0.5],
+        ];
+
+        expect(columnsWithUnsafeIntegers(table, ["id", "balance", "limits", "ratio"], rows)).toEqual(["balance: U128", "limits: Option<U64>"]);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { formatDiagnostics, parseDiagnostics } from "../src/diagnostics.js";
+
+describe("parseDiagnostics", () => {
+    it("reads rustc diagnostics with their locations and skips summary lines", () => {
+        const output = [
+            "   Compiling my-module v0.1.0 (/work/server)",
+            "\u001b[1m\u001b[31merror[E0425]\u001b[0m: cannot find value `player` in this scope",
+            "  --> src/lib.rs:12:5",
+            "   |",
+            "12 |     player.id",
+            "   |     ^^^^^^ not found in this scope",
+            "warning: unused variable: `ctx`",
+            " --> src/lib.rs:3:9",
+            "error: aborting due to 1 previous error",
+            "error: could not compile `my-module` (lib) due to 1 previous error",
+        ].join("\n");
+
+        const diagnostics = parseDiagnostics(output);
+
+        expect(diagnostics).toEqual([
+            { severity: "error", code: "E0425", message: "cannot find value `player` in this scope", file: "src/lib.rs", line: 12, column: 5 },
+            { severity: "warning", message: "unused variable: `ctx`", file: "src/lib.rs", line: 3, column: 9 },
+        ]);
+        expect(formatDiagnostics(diagnostics)).toBe(
+            "- src/lib.rs:12:5: error[E0425]: cannot find value `player` in this scope\n- src/lib.rs:3:9: warning: unused variable: `ctx`"
+        );
+    });
+
+    it("reads dotnet and tsc diagnostics and drops the repeated build summary", () => {
+        const output = [
+            "  /work/server/Lib.cs(12,9): error CS0103: The name 'player' does not exist in the current context [/work/server/StdbModule.csproj]",
+            "Build FAILED.",
+            "  /work/server/Lib.cs(12,9): error CS0103: The name 'player' does not exist in the current context [/work/server/StdbModule.csproj]",
+            "src/index.ts(4,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+            "src/index.ts:9:1 - warning TS6133: 'ctx' is declared but its value is never read.",
+        ].join("\n");
+
+        expect(parseDiagnostics(output)).toEqual([
+            {
+                severity: "error",
+                code: "CS0103",
+                message: "The name 'player' does not exist in the current context",
+                file: "/work/server/Lib.cs",
+                line: 12,
+                column: 9,
+            },
+            { severity: "error", code: "TS2322", message: "Type 'string' is not assignable to type 'number'.", file: "src/index.ts", line: 4, column: 7 },
+            { severity: "warning", code: "TS6133", message: "'ctx' is declared but its value is never read.", file: "src/index.ts", line: 9, column: 1 },
+        ]);
+    });
+
+    it("joins spacetime CLI errors with their causes", () => {
+        const output = "Error: Failed to build module\n\nCaused by:\n    0: cargo build failed\n    1: exit status: 101\n";
+
+        expect(parseDiagnostics(output)).toEqual([
+            { severity: "error", message: "Failed to build module: cargo build failed: exit status: 101" },
+        ]);
+    });
+});
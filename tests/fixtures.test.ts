@@ -0,0 +1,77 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { loadFixture, positionalArgs, substituteSqlVariables, substituteVariables } from "../src/fixtures.js";
+import { RawReducer } from "../src/types.js";
+
+const writeFixture = (name: string, content: string) => {
+    const path = join(mkdtempSync(join(tmpdir(), "stdb-fixture-")), name);
+    writeFileSync(path, content);
+    return path;
+};
+
+describe("fixtures", () => {
+    it("loads YAML fixtures and JSON step lists", async () => {
+        const yamlPath = writeFixture(
+            "world.yaml",
+            ["variables:", "  team: red", "steps:", "  - reducer: create_player", "    args: [ada, '${team}']", "  - query: SELECT * FROM players", "    save: { ada: identity }"].join("\n")
+        );
+        const jsonPath = writeFixture("steps.json", JSON.stringify([{ reducer: "reset" }]));
+
+        expect(await loadFixture(yamlPath)).toEqual({
+            variables: { team: "red" },
+            steps: [
+                { reducer: "create_player", args: ["ada", "${team}"] },
+                { query: "SELECT * FROM players", save: { ada: "identity" } },
+            ],
+        });
+        expect(await loadFixture(jsonPath)).toEqual({ variables: {}, steps: [{ reducer: "reset" }] });
+    });
+
+    it("reports every malformed step", async () => {
+        const path = writeFixture("bad.json", JSON.stringify({ steps: [{ args: [1] }, { reducer: "spawn", rows: [[1]], args: [1] }, { reducer: "x", save: {} }] }));
+
+        await expect(loadFixture(path)).rejects.toThrow(
+            "steps[0]: needs either reducer or query; steps[1]: use either args or rows; steps[2]: save must be an object and needs a query"
+        );
+    });
+
+    it("substitutes variables, keeping the type of whole-value references", () => {
+        const variables = { id: 7, owner: "0xc200", pos: { x: 1, y: 2 } };
+
+        expect(substituteVariables(["${id}", "player ${id} of ${owner}", { at: "${pos}" }], variables)).toEqual([
+            7,
+            "player 7 of 0xc200",
+            { at: { x: 1, y: 2 } },
+        ]);
+        expect(() => substituteVariables("${missing}", variables)).toThrow("Undefined variable ${missing}");
+    });
+
+    it("writes variables into SQL as literals", () => {
+        const variables = { name: "o'brien' OR '1'='1", level: 3, active: true, pos: { x: 1 } };
+
+        expect(substituteSqlVariables("SELECT * FROM players WHERE name = ${name} AND level > ${level} AND active = ${active}", variables)).toBe(
+            "SELECT * FROM players WHERE name = 'o''brien'' OR ''1''=''1' AND level > 3 AND active = true"
+        );
+        expect(() => substituteSqlVariables("SELECT * FROM players WHERE pos = ${pos}", variables)).toThrow(
+            "Variable ${pos} cannot be used in SQL; only strings, numbers and booleans can"
+        );
+    });
+
+    it("maps named arguments to the reducer's parameter order", () => {
+        const reducer: RawReducer = {
+            name: "spawn",
+            lifecycle: {},
+            params: {
+                elements: [
+                    { name: { some: "id" }, algebraic_type: { U32: {} } },
+                    { name: { some: "name" }, algebraic_type: { String: {} } },
+                ],
+            },
+        };
+
+        expect(positionalArgs(reducer, { name: "ada", id: 1 })).toEqual([1, "ada"]);
+        expect(() => positionalArgs(reducer, { nme: "ada" })).toThrow("Unknown argument(s) for spawn: nme. Parameters: id, name");
+    });
+});
@@ -0,0 +1,157 @@
+import { AddressInfo } from "node:net";
+import { request, Server as NodeServer } from "node:http";
+import { afterEach, describe, expect, it } from "vitest";
+import { startHttpServer } from "../src/http.js";
+import { createServer } from "../src/server.js";
+
+const initializeRequest = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+// Responses arrive as a single server-sent event carrying the JSON-RPC message
+async function readMessage(response: Response) {
+    const text = await response.text();
+    const data = text.split("\n").find((line) => line.startsWith("data: "));
+    return JSON.parse(data ? data.slice("data: ".length) : text);
+}
+
+// fetch does not let callers choose the Host header
+function postWithHost(port: number, host: string, body: unknown): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const req = request(
+            {
+                host: "127.0.0.1",
+                port,
+                path: "/mcp",
+                method: "POST",
+                headers: { Host: host, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+            },
+            (res) => {
+                res.resume();
+                resolve(res.statusCode ?? 0);
+            }
+        );
+        req.on("error", reject);
+        req.end(JSON.stringify(body));
+    });
+}
+
+describe("startHttpServer", () => {
+    let httpServer: NodeServer | undefined;
+
+    afterEach(async () => {
+        httpServer?.closeAllConnections();
+        await new Promise((resolve) => httpServer?.close(resolve));
+    });
+
+    it("authenticates requests and serves tools over a session", async () => {
+        httpServer = await startHttpServer({
+            createMcpServer: () => createServer({ host: "http://127.0.0.1:1", token: "", defaultDatabase: "game" }),
+            port: 0,
+            apiKey: "secret",
+        });
+        const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+        const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+
+        const unauthorized = await fetch(url, { method: "POST", headers, body: JSON.stringify(initializeRequest) });
+        const missingSession = await fetch(url, {
+            method: "POST",
+            headers: { ...headers, "X-API-Key": "secret" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+        });
+        const initialized = await fetch(url, {
+            method: "POST",
+            headers: { ...headers, Authorization: "Bearer secret" },
+            body: JSON.stringify(initializeRequest),
+        });
+        const sessionId = initialized.headers.get("mcp-session-id") ?? "";
+        await readMessage(initialized);
+
+        const sessionHeaders = { ...headers, Authorization: "Bearer secret", "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" };
+        await fetch(url, {
+            method: "POST",
+            headers: sessionHeaders,
+            body: JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+        });
+        const tools = await readMessage(
+            await fetch(url, { method: "POST", headers: sessionHeaders, body: JSON.stringify({ jsonrpc: "2.0", id: 3, method: "tools/list" }) })
+        );
+
+        expect(unauthorized.status).toBe(401);
+        expect(missingSession.status).toBe(400);
+        expect(initialized.status).toBe(200);
+        expect(sessionId).not.toBe("");
+        expect(tools.result.tools.map((tool: { name: string }) => tool.name)).toContain("get_schema");
+    });
+
+    it("rejects Host headers other than localhost on a loopback bind", async () => {
+        httpServer = await startHttpServer({
+            createMcpServer: () => createServer({ host: "http://127.0.0.1:1", token: "", defaultDatabase: "game" }),
+            port: 0,
+        });
+        const port = (httpServer.address() as AddressInfo).port;
+        const listTools = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+
+        expect(await postWithHost(port, `attacker.example:${port}`, listTools)).toBe(403);
+        expect(await postWithHost(port, `localhost:${port}`, listTools)).toBe(400);
+        expect(await postWithHost(port, `[::1]:${port}`, listTools)).toBe(400);
+    });
+
+    it("closes sessions that stay idle", async () => {
+        httpServer = await startHttpServer({
+            createMcpServer: () => createServer({ host: "http://127.0.0.1:1", token: "", defaultDatabase: "game" }),
+            port: 0,
+            sessionIdleMs: 50,
+        });
+        const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+        const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+
+        const initialized = await fetch(url, { method: "POST", headers, body: JSON.stringify(initializeRequest) });
+        const sessionId = initialized.headers.get("mcp-session-id") ?? "";
+        await readMessage(initialized);
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        const expired = await fetch(url, {
+            method: "POST",
+            headers: { ...headers, "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" },
+            body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+        });
+
+        expect(sessionId).not.toBe("");
+        expect(expired.status).toBe(404);
+    });
+
+    it("keeps sessions with an open stream and limits the number of sessions", async () => {
+        httpServer = await startHttpServer({
+            createMcpServer: () => createServer({ host: "http://127.0.0.1:1", token: "", defaultDatabase: "game" }),
+            port: 0,
+            sessionIdleMs: 50,
+            maxSessions: 1,
+        });
+        const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+        const headers = { "Content-Type": "application/json", Accept: "application/json, text/event-stream" };
+        const initialize = () => fetch(url, { method: "POST", headers, body: JSON.stringify(initializeRequest) });
+
+        const initialized = await initialize();
+        const sessionId = initialized.headers.get("mcp-session-id") ?? "";
+        await readMessage(initialized);
+        const sessionHeaders = { ...headers, "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" };
+        const listTools = () => fetch(url, { method: "POST", headers: sessionHeaders, body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }) });
+        const refused = await initialize();
+        const stream = new AbortController();
+        const opened = await fetch(url, { method: "GET", headers: { ...sessionHeaders, Accept: "text/event-stream" }, signal: stream.signal });
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        const whileStreaming = await listTools();
+        await readMessage(whileStreaming);
+        stream.abort();
+        await new Promise((resolve) => setTimeout(resolve, 150));
+        const afterStream = await listTools();
+
+        expect(refused.status).toBe(503);
+        expect(opened.status).toBe(200);
+        expect(whileStreaming.status).toBe(200);
+        expect(afterStream.status).toBe(404);
+    });
+});
@@ -0,0 +1,91 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { decodeModuleDef, describeModule, findBuiltModule } from "../src/module-schema.js";
+import { parseReducers, parseTables } from "../src/schema.js";
+
+const u16 = (n: number) => [n & 0xff, n >> 8];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+const str = (s: string) => [...u32(Buffer.byteLength(s)), ...Buffer.from(s)];
+const vec = (items: number[][]) => [...u32(items.length), ...items.flat()];
+const some = (bytes: number[]) => [0, ...bytes];
+const none = [1];
+const element = (name: string, type: number[]) => [...some(str(name)), ...type];
+const [STRING, U64] = [[4], [13]];
+
+// RawModuleDef::V9 with one table, two reducers and one named type
+const moduleDef = [
+    1,
+    ...vec([[2, ...vec([element("id", U64), element("name", STRING)])]]),
+    ...vec([
+        [
+            ...str("users"),
+            ...u32(0),
+            ...vec([u16(0)]),
+            ...vec([[...some(str("users_id_idx_btree")), ...none, 0, ...vec([u16(0)])]]),
+            ...vec([[...some(str("users_id_key")), 0, ...vec([u16(0)])]]),
+            ...vec([[...none, ...u16(0), ...none, ...none, ...none, 1, ...new Array(15).fill(0)]]),
+            ...none,
+            1,
+            0,
+        ],
+    ]),
+    ...vec([
+        [...str("add_user"), ...vec([element("name", STRING)]), ...none],
+        [...str("init"), ...vec([]), ...some([0])],
+    ]),
+    ...vec([[...vec([]), ...str("User"), ...u32(0), 0]]),
+    ...vec([]),
+    ...vec([]),
+];
+
+const leb = (n: number): number[] => (n < 0x80 ? [n] : [(n & 0x7f) | 0x80, ...leb(n >> 7)]);
+const name = (s: string) => [...leb(s.length), ...Buffer.from(s)];
+const section = (id: number, content: number[]) => [id, ...leb(content.length), ...content];
+
+// A module whose __describe_module__ writes the data segment's payload to the sink it is given
+function describingModule(payload: number[]): Buffer {
+    const data = [...u32(payload.length), ...payload];
+    const body = [0, 0x20, 0, 0x41, 4, 0x41, 0, 0x10, 0, 0x1a, 0x0b];
+    return Buffer.from([
+        ...[0, 0x61, 0x73, 0x6d, 1, 0, 0, 0],
+        ...section(1, [2, 0x60, 3, 0x7f, 0x7f, 0x7f, 1, 0x7f, 0x60, 1, 0x7f, 0]),
+        ...section(2, [1, ...name("spacetime_10.0"), ...name("bytes_sink_write"), 0, 0]),
+        ...section(3, [1, 1]),
+        ...section(5, [1, 0, 1]),
+        ...section(7, [2, ...name("memory"), 2, 0, ...name("__describe_module__"), 0, 1]),
+        ...section(10, [1, ...leb(body.length), ...body]),
+        ...section(11, [1, 0, 0x41, 0, 0x0b, ...leb(data.length), ...data]),
+    ]);
+}
+
+describe("module schema", () => {
+    it("decodes the tables, reducers and types of a module definition", () => {
+        const schema = decodeModuleDef(Uint8Array.from(moduleDef));
+
+        expect(schema.tables).toEqual([{ name: "users", product_type_ref: 0 }]);
+        expect(schema.types).toEqual([{ name: { scope: [], name: "User" }, ty: 0, custom_ordering: false }]);
+        expect(parseTables(schema)[0].columns.map((column) => `${column.name}: ${column.fullType}`)).toEqual(["id: U64", "name: String"]);
+        expect(parseReducers(schema).map((reducer) => [reducer.name, reducer.lifecycle])).toEqual([
+            ["add_user", null],
+            ["init", "Init"],
+        ]);
+        expect(() => decodeModuleDef(Uint8Array.from(moduleDef.slice(0, 40)))).toThrow("ended unexpectedly");
+    });
+
+    it("finds the built module and asks it to describe itself", async () => {
+        const projectPath = mkdtempSync(join(tmpdir(), "stdb-module-"));
+        const release = join(projectPath, "target", "wasm32-unknown-unknown", "release");
+        mkdirSync(join(release, "deps"), { recursive: true });
+        writeFileSync(join(release, "game.wasm"), describingModule(moduleDef));
+        writeFileSync(join(release, "deps", "game.wasm"), "not the module");
+
+        const path = await findBuiltModule(projectPath);
+        const schema = await describeModule(path);
+
+        expect(path).toBe(join(release, "game.wasm"));
+        expect(schema).toEqual(decodeModuleDef(Uint8Array.from(moduleDef)));
+        await expect(findBuiltModule(join(projectPath, "missing"))).rejects.toThrow("No built module found");
+    });
+});
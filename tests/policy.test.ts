@@ -0,0 +1,66 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { checkToolCall, isMutatingSql, loadPolicyConfig, matchesGlob } from "../src/policy.js";
+
+describe("policy", () => {
+    it("matches glob patterns", () => {
+        expect(matchesGlob("create_*", "create_player")).toBe(true);
+        expect(matchesGlob("create_*", "delete_player")).toBe(false);
+        expect(matchesGlob("game.prod", "gameXprod")).toBe(false);
+    });
+
+    it("detects mutating SQL statements", () => {
+        expect(isMutatingSql("SELECT * FROM players")).toBe(false);
+        expect(isMutatingSql("  delete from players where id = 1")).toBe(true);
+        expect(isMutatingSql("SELECT 1; UPDATE players SET hp = 0")).toBe(true);
+        expect(isMutatingSql("-- DELETE\nSELECT * FROM players")).toBe(false);
+        expect(isMutatingSql("SELECT * FROM players WHERE name = 'a; DELETE FROM players'")).toBe(false);
+    });
+
+    it("does not let literals, comments or parentheses hide a mutating statement", () => {
+        const policy = { blockMutatingSql: true };
+
+        expect(checkToolCall(policy, "sql_query", "db", { query: "SELECT * FROM users WHERE name = '--'; DELETE FROM users" })).toContain(
+            "Mutating SQL"
+        );
+        expect(checkToolCall(policy, "sql_query", "db", { query: "(DELETE FROM users)" })).toContain("Mutating SQL");
+        expect(checkToolCall(policy, "sql_query", "db", { query: "SELECT '/*' FROM users; /* x */ UPDATE users SET a = 1" })).toContain(
+            "Mutating SQL"
+        );
+    });
+
+    it("checks tool calls against the configured rules", () => {
+        const policy = {
+            allowedDatabases: ["dev-*"],
+            deniedDatabases: ["dev-shared"],
+            allowedReducers: ["spawn_*"],
+            blockMutatingSql: true,
+        };
+
+        expect(checkToolCall(policy, "get_schema", "dev-alpha", {})).toBeNull();
+        expect(checkToolCall(policy, "get_schema", "prod", {})).toContain("not allowed");
+        expect(checkToolCall(policy, "get_schema", "dev-shared", {})).toContain("not allowed");
+        expect(checkToolCall(policy, "call_reducer", "dev-alpha", { reducer: "spawn_enemy" })).toBeNull();
+        expect(checkToolCall(policy, "call_reducer", "dev-alpha", { reducer: "reset_world" })).toContain("reset_world");
+        expect(checkToolCall(policy, "sql_query", "dev-alpha", { query: "DELETE FROM players" })).toContain("Mutating SQL");
+        expect(checkToolCall({ readOnly: true }, "delete_database", "dev-alpha", {})).toContain("read-only");
+    });
+
+    it("loads settings from a policy file with environment overrides", () => {
+        const dir = mkdtempSync(join(tmpdir(), "stdb-policy-"));
+        const file = join(dir, "policy.json");
+        writeFileSync(file, JSON.stringify({ readOnly: true, allowedReducers: ["spawn_*"] }));
+
+        const policy = loadPolicyConfig({
+            SPACETIMEDB_POLICY_FILE: file,
+            SPACETIMEDB_READ_ONLY: "false",
+            SPACETIMEDB_DENIED_DATABASES: "prod, prod-eu",
+        });
+
+        expect(policy.readOnly).toBe(false);
+        expect(policy.allowedReducers).toEqual(["spawn_*"]);
+        expect(policy.deniedDatabases).toEqual(["prod", "prod-eu"]);
+    });
+});
@@ -0,0 +1,106 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { loadServerProfiles } from "../src/profiles.js";
+
+describe("server profiles", () => {
+    it("falls back to a single profile built from the environment", () => {
+        const profiles = loadServerProfiles({
+            SPACETIMEDB_HOST: "http://stdb:3000",
+            SPACETIMEDB_DEFAULT_DATABASE: "game",
+            SPACETIMEDB_CLI_CONFIG: join(tmpdir(), "stdb-missing-cli.toml"),
+        });
+
+        expect(profiles.defaultServer).toBe("default");
+        expect(profiles.servers.default).toEqual({
+            host: "http://stdb:3000",
+            token: "",
+            defaultDatabase: "game",
+            identity: "",
+            credentialSource: "none",
+        });
+    });
+
+    it("loads named profiles from a servers file", () => {
+        const dir = mkdtempSync(join(tmpdir(), "stdb-servers-"));
+        const file = join(dir, "servers.json");
+        writeFileSync(
+            file,
+            JSON.stringify({
+                default: "local",
+                servers: {
+                    local: { host: "http://localhost:3000", defaultDatabase: "game" },
+                    maincloud: { host: "https://maincloud.spacetimedb.com", token: "secret" },
+                },
+            })
+        );
+
+        const env = { SPACETIMEDB_SERVERS_FILE: file, SPACETIMEDB_CLI_CONFIG: join(dir, "cli.toml") };
+        const profiles = loadServerProfiles(env);
+        const overridden = loadServerProfiles({ ...env, SPACETIMEDB_SERVER: "maincloud" });
+
+        expect(profiles.defaultServer).toBe("local");
+        expect(Object.keys(profiles.servers)).toEqual(["local", "maincloud"]);
+        expect(profiles.servers.maincloud.token).toBe("secret");
+        expect(overridden.defaultServer).toBe("maincloud");
+        expect(() => loadServerProfiles({ ...env, SPACETIMEDB_SERVER: "staging" })).toThrow(
+            'Default server "staging"'
+        );
+    });
+
+    it("reads the token and servers from the spacetime CLI config and follows changes", () => {
+        const dir = mkdtempSync(join(tmpdir(), "stdb-cli-"));
+        const file = join(dir, "cli.toml");
+        const writeConfig = (token: string) =>
+            writeFileSync(
+                file,
+                [
+                    'default_server = "maincloud"',
+                    `spacetimedb_token = "${token}"`,
+                    "",
+                    "[[server_configs]]",
+                    'nickname = "local"',
+                    'host = "127.0.0.1:3000"',
+                    'protocol = "http"',
+                    "",
+                    "[[server_configs]]",
+                    'nickname = "maincloud"',
+                    'host = "maincloud.spacetimedb.com"',
+                    'protocol = "https"',
+                ].join("\n")
+            );
+        writeConfig("first");
+
+        const profiles = loadServerProfiles({ SPACETIMEDB_CLI_CONFIG: file, SPACETIMEDB_DEFAULT_DATABASE: "game" });
+
+        expect(profiles.defaultServer).toBe("maincloud");
+        expect(profiles.servers.local.host).toBe("http://127.0.0.1:3000");
+        expect(profiles.servers.maincloud).toMatchObject({
+            host: "https://maincloud.spacetimedb.com",
+            token: "first",
+            defaultDatabase: "game",
+            credentialSource: `spacetime CLI config (${file})`,
+        });
+
+        writeConfig("second");
+        expect(profiles.cliConfigSource?.reload()).toEqual({ tokenChanged: true, serversChanged: false });
+        expect(profiles.servers.local.getToken?.()).toBe("second");
+
+        writeFileSync(
+            file,
+            ['default_server = "staging"', 'spacetimedb_token = "third"', "", "[[server_configs]]", 'nickname = "staging"', 'host = "staging.example.com"'].join("\n")
+        );
+        expect(profiles.cliConfigSource?.reload()).toEqual({ tokenChanged: true, serversChanged: true });
+        const reloaded = loadServerProfiles({ SPACETIMEDB_CLI_CONFIG: file, SPACETIMEDB_DEFAULT_DATABASE: "game" }, profiles.cliConfigSource);
+
+        expect(reloaded.cliConfigSource).toBe(profiles.cliConfigSource);
+        expect(reloaded.defaultServer).toBe("staging");
+        expect(Object.keys(reloaded.servers)).toEqual(["staging"]);
+        expect(reloaded.servers.staging).toMatchObject({ host: "https://staging.example.com", defaultDatabase: "game" });
+        expect(reloaded.servers.staging.getToken?.()).toBe("third");
+        expect(loadServerProfiles({ SPACETIMEDB_CLI_CONFIG: file, SPACETIMEDB_TOKEN: "env" }).servers.default.credentialSource).toBe(
+            "SPACETIMEDB_TOKEN"
+        );
+    });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ResourceWatcher } from "../src/resource-watcher.js";
+
+describe("ResourceWatcher", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("notifies when new log lines arrive", async () => {
+        const snapshots = ["line 1", "line 1", "line 1\nline 2"];
+        const notified: string[] = [];
+        const watcher = new ResourceWatcher({
+            getLogs: async () => ({ success: true, data: snapshots.shift() ?? "line 1\nline 2" }),
+            subscribe: async () => ({ success: true, data: { subscription_id: "sub-1" } }),
+            unsubscribe: () => ({ success: true }),
+            notify: (uri) => notified.push(uri),
+            logPollIntervalMs: 1000,
+        });
+
+        await watcher.watch({ uri: "spacetimedb://db/logs", database: "db", kind: "logs" });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(notified).toEqual([]);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(notified).toEqual(["spacetimedb://db/logs"]);
+
+        watcher.unwatch("spacetimedb://db/logs");
+        snapshots.push("line 3");
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(notified).toHaveLength(1);
+    });
+
+    it("subscribes to table changes and unsubscribes on unwatch", async () => {
+        let onChange: (() => void) | undefined;
+        let subscribedQueries: string[] = [];
+        const unsubscribed: string[] = [];
+        const notified: string[] = [];
+        const watcher = new ResourceWatcher({
+            getLogs: async () => ({ success: true, data: "" }),
+            subscribe: async (_database, queries, callback) => {
+                subscribedQueries = queries;
+                onChange = callback;
+                return { success: true, data: { subscription_id: "sub-7" } };
+            },
+            unsubscribe: (id) => {
+                unsubscribed.push(id);
+                return { success: true };
+            },
+            notify: (uri) => notified.push(uri),
+        });
+
+        const uri = "spacetimedb://db/tables/players";
+        await watcher.watch({ uri, database: "db", kind: "table", table: "players" });
+        onChange?.();
+        watcher.unwatch(uri);
+
+        expect(subscribedQueries).toEqual(["SELECT * FROM players"]);
+        expect(notified).toEqual([uri]);
+        expect(unsubscribed).toEqual(["sub-7"]);
+    });
+
+    it("subscribes once for concurrent watches and stops a watch removed while starting", async () => {
+        let release: () => void = () => undefined;
+        const subscribed: string[] = [];
+        const unsubscribed: string[] = [];
+        const watcher = new ResourceWatcher({
+            getLogs: async () => ({ success: true, data: "" }),
+            subscribe: async (_database, queries) => {
+                subscribed.push(queries[0]);
+                await new Promise<void>((resolve) => {
+                    release = resolve;
+                });
+                return { success: true, data: { subscription_id: `sub-${subscribed.length}` } };
+            },
+            unsubscribe: (id) => {
+                unsubscribed.push(id);
+                return { success: true };
+            },
+            notify: () => undefined,
+        });
+
+        const uri = "spacetimedb://db/tables/players";
+        const first = watcher.watch({ uri, database: "db", kind: "table", table: "players" });
+        const second = watcher.watch({ uri, database: "db", kind: "table", table: "players" });
+        watcher.unwatch(uri);
+        release();
+
+        expect(await first).toEqual({ success: true, data: { uri } });
+        expect(await second).toEqual({ success: true, data: { uri } });
+        expect(subscribed).toEqual(["SELECT * FROM players"]);
+        expect(unsubscribed).toEqual(["sub-1"]);
+    });
+
+    it("keeps polling logs after a failed poll", async () => {
+        const errors = vi.spyOn(console, "error").mockImplementation(() => undefined);
+        const notified: string[] = [];
+        let calls = 0;
+        const watcher = new ResourceWatcher({
+            getLogs: async () => {
+                calls++;
+                if (calls === 2) throw new Error("connection reset");
+                return { success: true, data: calls < 3 ? "line 1" : "line 1\nline 2" };
+            },
+            subscribe: async () => ({ success: true, data: { subscription_id: "sub-1" } }),
+            unsubscribe: () => ({ success: true }),
+            notify: (uri) => notified.push(uri),
+            logPollIntervalMs: 1000,
+        });
+
+        await watcher.watch({ uri: "spacetimedb://db/logs", database: "db", kind: "logs" });
+        await vi.advanceTimersByTimeAsync(2000);
+        watcher.closeAll();
+
+        expect(errors).toHaveBeenCalledWith("Failed to poll logs for spacetimedb://db/logs:", expect.any(Error));
+        expect(notified).toEqual(["spacetimedb://db/logs"]);
+        errors.mockRestore();
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { diffSchemas } from "../src/schema-diff.js";
+import { AlgebraicType, AlgebraicTypeElement, RawSchema } from "../src/types.js";
+
+const field = (name: string, algebraic_type: AlgebraicType): AlgebraicTypeElement => ({ name: { some: name }, algebraic_type });
+const unit: AlgebraicType = { Product: { elements: [] } };
+
+function schema(options: {
+    playerFields: AlgebraicTypeElement[];
+    roles: string[];
+    reducers: { name: string; params: AlgebraicTypeElement[]; lifecycle?: string }[];
+    extraTable?: boolean;
+}): RawSchema {
+    return {
+        tables: [
+            { name: "players", product_type_ref: 0 },
+            ...(options.extraTable ? [{ name: "scores", product_type_ref: 2 }] : []),
+        ],
+        reducers: options.reducers.map((reducer) => ({
+            name: reducer.name,
+            params: { elements: reducer.params },
+            lifecycle: reducer.lifecycle ? { some: { [reducer.lifecycle]: [] } } : { none: [] },
+        })) as RawSchema["reducers"],
+        typespace: {
+            types: [
+                { Product: { elements: options.playerFields } },
+                { Sum: { variants: options.roles.map((role) => ({ name: { some: role }, algebraic_type: unit })) } },
+                { Product: { elements: [field("points", { U32: {} } as AlgebraicType)] } },
+            ],
+        },
+        types: [
+            { name: { scope: [], name: "Player" }, ty: 0, custom_ordering: false },
+            { name: { scope: [], name: "Role" }, ty: 1, custom_ordering: false },
+            { name: { scope: [], name: "Score" }, ty: 2, custom_ordering: false },
+        ],
+    };
+}
+
+describe("diffSchemas", () => {
+    it("reports identical schemas as unchanged", () => {
+        const base = schema({ playerFields: [field("id", { U64: {} } as AlgebraicType)], roles: ["Admin"], reducers: [] });
+
+        expect(diffSchemas(base, base)).toEqual({ identical: true, breaking: false, changes: [] });
+    });
+
+    it("classifies table, column, reducer and type changes", () => {
+        const before = schema({
+            playerFields: [field("id", { U64: {} } as AlgebraicType), field("name", { String: {} } as AlgebraicType)],
+            roles: ["Admin", "Member"],
+            reducers: [
+                { name: "rename", params: [field("name", { String: {} } as AlgebraicType)] },
+                { name: "reset", params: [] },
+                { name: "init", params: [] },
+            ],
+        });
+        const after = schema({
+            playerFields: [field("id", { U32: {} } as AlgebraicType), field("name", { String: {} } as AlgebraicType), field("level", { U8: {} } as AlgebraicType)],
+            roles: ["Admin", "Member", "Guest"],
+            reducers: [
+                { name: "rename", params: [field("new_name", { String: {} } as AlgebraicType)] },
+                { name: "init", params: [], lifecycle: "Init" },
+                { name: "spawn", params: [] },
+            ],
+            extraTable: true,
+        });
+
+        const diff = diffSchemas(before, after);
+
+        expect(diff.breaking).toBe(true);
+        expect(diff.changes.map(({ kind, change, name, breaking }) => [kind, change, name, breaking])).toEqual([
+            ["column", "changed", "players.id", true],
+            ["column", "added", "players.level", true],
+            ["table", "added", "scores", false],
+            ["reducer", "changed", "rename", true],
+            ["reducer", "removed", "reset", true],
+            ["reducer", "changed", "init", true],
+            ["reducer", "added", "spawn", false],
+            ["type", "changed", "Player", true],
+            ["type", "changed", "Role", false],
+        ]);
+        expect(diff.changes.find((change) => change.name === "rename")).toMatchObject({ before: "(name: String)", after: "(new_name: String)" });
+        expect(diff.changes.find((change) => change.name === "Role")?.detail).toBe("variants added");
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { formatSchemaJson, formatSchemaJsonSchema, formatSchemaTypeScript } from "../src/schema-formats.js";
+import { RawSchema } from "../src/types.js";
+
+const schema: RawSchema = {
+    tables: [{ name: "player_state", product_type_ref: 0 }],
+    reducers: [
+        {
+            name: "set_class",
+            lifecycle: {},
+            params: {
+                elements: [
+                    { name: { some: "player_id" }, algebraic_type: { U64: {} } },
+                    { name: { some: "class" }, algebraic_type: { Ref: 1 } },
+                ],
+            },
+        },
+        {
+            name: "init",
+            lifecycle: { some: { Init: {} } },
+            params: { elements: [] },
+        },
+    ],
+    typespace: {
+        types: [
+            {
+                Product: {
+                    elements: [
+                        { name: { some: "id" }, algebraic_type: { U64: {} } },
+                        { name: { some: "hp" }, algebraic_type: { I32: {} } },
+                        { name: { some: "class" }, algebraic_type: { Ref: 1 } },
+                        { name: { some: "nickname" }, algebraic_type: { Option: { String: {} } } },
+                        {
+                            name: { some: "owner" },
+                            algebraic_type: {
+                                Product: { elements: [{ name: { some: "__identity__" }, algebraic_type: { U256: {} } }] },
+                            },
+                        },
+                    ],
+                },
+            },
+            {
+                Sum: {
+                    variants: [
+                        { name: { some: "Warrior" }, algebraic_type: { Product: { elements: [] } } },
+                        { name: { some: "Mage" }, algebraic_type: { U8: {} } },
+                    ],
+                },
+            },
+        ],
+    },
+    types: [
+        { name: { scope: [], name: "PlayerState" }, ty: 0, custom_ordering: false },
+        { name: { scope: [], name: "Class" }, ty: 1, custom_ordering: false },
+    ],
+};
+
+describe("schema formats", () => {
+    it("builds a normalized JSON model", () => {
+        const model = JSON.parse(formatSchemaJson(schema));
+
+        expect(model.tables[0]).toEqual({
+            name: "player_state",
+            columns: [
+                { name: "id", type: "U64" },
+                { name: "hp", type: "I32" },
+                { name: "class", type: "Class" },
+                { name: "nickname", type: "Option<String>" },
+                { name: "owner", type: "Identity" },
+            ],
+        });
+        expect(model.reducers[1]).toEqual({ name: "init", lifecycle: "Init", params: [] });
+        expect(model.types[1]).toEqual({
+            name: "Class",
+            kind: "enum",
+            variants: [
+                { name: "Warrior", type: null },
+                { name: "Mage", type: "U8" },
+            ],
+        });
+    });
+
+    it("renders TypeScript declarations for types, rows and reducer arguments", () => {
+        const output = formatSchemaTypeScript(schema);
+
+        expect(output).toContain('import { Identity } from "@clockworklabs/spacetimedb-sdk";');
+        expect(output).toContain('export type Class =\n    | { tag: "Warrior" }\n    | { tag: "Mage"; value: number };');
+        expect(output).toContain("export interface PlayerStateRow {\n    id: bigint;\n    hp: number;\n    class: Class;\n    nickname: string | undefined;\n    owner: Identity;\n}");
+        expect(output).toContain("export type SetClassArgs = [player_id: bigint, class: Class];");
+        expect(output).toContain("export type InitArgs = [];");
+    });
+
+    it("renders JSON Schema documents with the referenced definitions", () => {
+        const documents = JSON.parse(formatSchemaJsonSchema(schema));
+        const row = documents.tables.player_state;
+        const args = documents.reducers.set_class;
+
+        expect(row.required).toEqual(["id", "hp", "class", "nickname", "owner"]);
+        expect(row.properties.hp).toEqual({ type: "integer", minimum: -2147483648, maximum: 2147483647 });
+        expect(row.properties.class).toEqual({ $ref: "#/$defs/Class" });
+        expect(row.$defs.Class.oneOf[1].properties.Mage).toEqual({ type: "integer", minimum: 0, maximum: 255 });
+        expect(args.prefixItems).toHaveLength(2);
+        expect(args.minItems).toBe(2);
+        expect(args.prefixItems[0].title).toBe("player_id");
+        expect(documents.reducers.init.$defs).toBeUndefined();
+    });
+});
@@ -1,12 +1,20 @@
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { describe, expect, it } from "vitest";
+import { ConfirmationStore } from "../src/confirmations.js";
 import { createHandlers, SpacetimeClientLike } from "../src/server.js";
 
 const createStubClient = (overrides?: Partial<SpacetimeClientLike>): SpacetimeClientLike => ({
     testConnection: async () => ({ success: true, data: "ok" }),
     getSchema: async () => ({ success: true, data: "schema" }),
+    getRawSchema: async () => ({ success: false, error: "schema unavailable" }),
+    invalidateSchema: () => undefined,
+    getTables: async () => ({ success: true, data: [{ name: "users", columns: [{ name: "id", type: "U64", fullType: "U64" }] }] }),
     runSql: async () => ({ success: true, data: [{ value: 1 }] }),
     callReducer: async () => ({ success: true, data: { ok: true } }),
     getLogs: async () => ({ success: true, data: "logs" }),
+    tailLogs: async () => ({ success: true, data: { cursor: "0:0", count: 0, truncated: false, logs: "" } }),
     describeDatabase: async () => ({ success: true, data: { name: "db" } }),
     getDatabaseIdentity: async () => ({ success: true, data: { identity: "0xabc" } }),
     deleteDatabase: async () => ({ success: true, data: { ok: true } }),
@@ -68,33 +76,517 @@ describe("createHandlers", () => {
         expect(response.content[0].text).toContain("| 1 | alpha |");
     });
 
+    it("renders each SQL statement result as its own markdown table", async () => {
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async () => ({
+                    success: true,
+                    data: [
+                        { columns: ["id", "name"], rows: [{ id: 1, name: "alpha" }], total_duration_micros: 30 },
+                        { columns: ["count"], rows: [{ count: 5 }], total_duration_micros: 12 },
+                    ],
+                }),
+            }),
+            defaultDatabase: "db",
+            host: "http://localhost:3000",
+        });
+
+        const response = await handlers.callTool({
+            params: { name: "sql_query", arguments: { query: "SELECT * FROM users; SELECT COUNT(*) AS count FROM users", format: "markdown" } },
+        });
+
+        expect(response.content[0].text).toContain("**Statement 1** (1 row(s) in 30 µs)\n\n| id | name |");
+        expect(response.content[0].text).toContain("| 1 | alpha |");
+        expect(response.content[0].text).toContain("**Statement 2** (1 row(s) in 12 µs)\n\n| count |");
+        expect(response.content[0].text).toContain("_Total: 42 µs_");
+    });
+
+    it("truncates SQL results with max_rows and exports full results to a file", async () => {
+        const exportDir = mkdtempSync(join(tmpdir(), "stdb-export-"));
+        const rows = [
+            { id: 1, name: "alpha" },
+            { id: 2, name: "beta, \"the second\"" },
+            { id: 3, name: null },
+        ];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async () => ({ success: true, data: [{ columns: ["id", "name"], rows, total_duration_micros: 5 }] }),
+            }),
+            defaultDatabase: "db",
+            host: "http://localhost:3000",
+            exportDir,
+        });
+        const exportPath = join(exportDir, "out", "users.csv");
+
+        const truncated = await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT * FROM users", max_rows: 1 } } });
+        const markdown = await handlers.callTool({
+            params: { name: "sql_query", arguments: { query: "SELECT * FROM users", max_rows: 2, format: "markdown" } },
+        });
+        const exported = await handlers.callTool({
+            params: { name: "sql_query", arguments: { query: "SELECT * FROM users", export_path: exportPath, max_rows: 1 } },
+        });
+        const csvWithoutPath = await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT * FROM users", format: "csv" } } });
+
+        expect(JSON.parse(truncated.content[0].text)).toEqual([
+            { columns: ["id", "name"], rows: [{ id: 1, name: "alpha" }], total_duration_micros: 5, omitted_rows: 2 },
+        ]);
+        expect(markdown.content[0].text).toContain("_1 more row(s) not shown (max_rows: 2)_");
+        expect(JSON.parse(exported.content[0].text)).toMatchObject({ path: exportPath, format: "csv", rows: 3, preview: [rows[0]] });
+        expect(readFileSync(exportPath, "utf8")).toBe('id,name\r\n1,alpha\r\n2,"beta, ""the second"""\r\n3,\r\n');
+        expect(csvWithoutPath.isError).toBe(true);
+        expect(csvWithoutPath.content[0].text).toContain("csv is only written to a file; pass export_path");
+    });
+
+    it("only writes files inside the configured export directory", async () => {
+        const exportDir = mkdtempSync(join(tmpdir(), "stdb-export-"));
+        const deps = {
+            dbClient: createStubClient({
+                getRawSchema: async () => ({ success: true, data: { tables: [], reducers: [], typespace: { types: [] }, types: [] } }),
+                runSql: async () => ({ success: true, data: [{ columns: ["id"], rows: [{ id: 1 }] }] }),
+            }),
+            defaultDatabase: "db",
+            host: "",
+        };
+        const disabled = createHandlers(deps);
+        const handlers = createHandlers({ ...deps, exportDir });
+        const calls = [
+            { name: "sql_query", arguments: { query: "SELECT * FROM users", export_path: "../users.csv" } },
+            { name: "diff_schema", arguments: { snapshot_path: join(tmpdir(), "schema.json") } },
+            { name: "export_database", arguments: { out_dir: "/" } },
+        ];
+
+        for (const params of calls) {
+            const refused = await disabled.callTool({ params });
+            const outside = await handlers.callTool({ params });
+
+            expect(refused.content[0].text).toContain("is disabled. Set SPACETIMEDB_EXPORT_DIR");
+            expect(outside.isError).toBe(true);
+            expect(outside.content[0].text).toContain(`must be inside the export directory ${exportDir}`);
+        }
+    });
+
+    it("lints SQL before sending it and through lint_sql", async () => {
+        const queries: string[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async (_database, query) => {
+                    queries.push(query);
+                    return { success: true, data: [] };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "http://localhost:3000",
+        });
+
+        const blocked = await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT * FROM user" } } });
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT * FROM user", skip_lint: true } } });
+        const lint = await handlers.callTool({ params: { name: "lint_sql", arguments: { query: "DELETE FROM users WHERE idd = 1" } } });
+
+        expect(blocked.isError).toBe(true);
+        expect(blocked.content[0].text).toContain('- error: Unknown table "user" (did you mean "users"?)');
+        expect(queries).toEqual(["SELECT * FROM user"]);
+        expect(JSON.parse(lint.content[0].text)).toMatchObject({
+            valid: false,
+            statements: [{ kind: "write", issues: [{ message: 'Unknown column "idd" in "users"', suggestion: "id" }] }],
+        });
+    });
+
+    it("diffs schemas between databases and against a saved snapshot", async () => {
+        const rawSchema = (columns: string[]) => ({
+            tables: [{ name: "users", product_type_ref: 0 }],
+            reducers: [],
+            typespace: { types: [{ Product: { elements: columns.map((name) => ({ name: { some: name }, algebraic_type: { U64: {} } })) } }] },
+            types: [{ name: { scope: [], name: "User" }, ty: 0, custom_ordering: false }],
+        });
+        let prodColumns = ["id"];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async (database) => ({
+                    success: true,
+                    data: rawSchema(database === "prod" ? prodColumns : ["id", "email"]),
+                }),
+            }),
+            defaultDatabase: "prod",
+            host: "http://localhost:3000",
+            exportDir: mkdtempSync(join(tmpdir(), "stdb-snapshot-")),
+        });
+        const snapshotPath = "prod.json";
+
+        const nothing = await handlers.callTool({ params: { name: "diff_schema", arguments: {} } });
+        const diff = JSON.parse((await handlers.callTool({ params: { name: "diff_schema", arguments: { compare_database: "staging" } } })).content[0].text);
+        const saved = JSON.parse((await handlers.callTool({ params: { name: "diff_schema", arguments: { snapshot_path: snapshotPath } } })).content[0].text);
+        prodColumns = ["id", "name"];
+        const sinceSnapshot = JSON.parse(
+            (await handlers.callTool({ params: { name: "diff_schema", arguments: { snapshot_path: snapshotPath } } })).content[0].text
+        );
+
+        expect(nothing.content[0].text).toContain("Nothing to compare");
+        expect(diff).toMatchObject({
+            before: { server: "default", database: "prod" },
+            after: { server: "default", database: "staging" },
+            breaking: true,
+            changes: [{ kind: "column", change: "added", name: "users.email" }, { kind: "type", name: "User" }],
+        });
+        expect(saved.snapshot_saved).toMatch(/stdb-snapshot-\w+[\\/]prod\.json$/);
+        expect(sinceSnapshot.changes[0]).toMatchObject({ kind: "column", change: "added", name: "users.name" });
+    });
+
+    it("exports a database snapshot and restores it through SQL and insert reducers", async () => {
+        const element = (name: string, algebraic_type: unknown) => ({ name: { some: name }, algebraic_type });
+        const identity = { Product: { elements: [element("__identity__", { U256: [] })] } };
+        const schema = {
+            tables: [
+                { name: "players", product_type_ref: 0 },
+                { name: "positions", product_type_ref: 1 },
+                { name: "players; DROP TABLE players", product_type_ref: 0 },
+            ],
+            reducers: [{ name: "insert_position", params: { elements: [element("player_id", { U64: [] }), element("pos", { Ref: 2 })] }, lifecycle: { none: [] } }],
+            typespace: {
+                types: [
+                    { Product: { elements: [element("id", { U64: [] }), element("owner", identity), element("name", { String: [] })] } },
+                    { Product: { elements: [element("player_id", { U64: [] }), element("pos", { Ref: 2 })] } },
+                    { Product: { elements: [element("x", { F32: [] }), element("y", { F32: [] })] } },
+                ],
+            },
+            types: [
+                { name: { scope: [], name: "Player" }, ty: 0, custom_ordering: false },
+                { name: { scope: [], name: "Position" }, ty: 1, custom_ordering: false },
+                { name: { scope: [], name: "Vec2" }, ty: 2, custom_ordering: false },
+            ],
+        };
+        const rows: Record<string, unknown[][]> = {
+            players: [[1, ["0xc200"], "ada"], [2, ["0xc201"], "o'brien"]],
+            positions: [[1, [1.5, 2]]],
+        };
+        const inserts: string[] = [];
+        const reducerCalls: unknown[][] = [];
+        const notifications: unknown[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({ success: true, data: schema }),
+                runSql: async (_database, query) => {
+                    const table = /^SELECT \* FROM (\w+)$/.exec(query)?.[1];
+                    if (table) {
+                        const elements = schema.typespace.types[table === "players" ? 0 : 1].Product.elements;
+                        return { success: true, data: [{ schema: { elements }, rows: rows[table] }] };
+                    }
+                    inserts.push(query);
+                    return query.includes("o''brien")
+                        ? { success: false, error: "HTTP 400: duplicate unique column value" }
+                        : { success: true, data: [] };
+                },
+                callReducer: async (...args) => {
+                    reducerCalls.push(args);
+                    return { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "game",
+            host: "http://localhost:3000",
+            exportDir: mkdtempSync(join(tmpdir(), "stdb-export-")),
+        });
+
+        const exported = JSON.parse((await handlers.callTool({ params: { name: "export_database", arguments: { out_dir: "backups" } } })).content[0].text);
+        const imported = JSON.parse(
+            (
+                await handlers.callTool(
+                    {
+                        params: {
+                            name: "import_database",
+                            arguments: { database: "game-restore", snapshot_path: exported.path, reducers: { positions: "insert_position" } },
+                            _meta: { progressToken: "restore" },
+                        },
+                    },
+                    {
+                        sendNotification: async (notification) => {
+                            notifications.push(notification);
+                        },
+                    }
+                )
+            ).content[0].text
+        );
+
+        const outside = await handlers.callTool({ params: { name: "import_database", arguments: { snapshot_path: tmpdir() } } });
+
+        expect(exported).toMatchObject({
+            database: "game",
+            format_version: 1,
+            tables: [{ name: "players", rows: 2 }, { name: "positions", rows: 1 }],
+            skipped_tables: [{ name: "players; DROP TABLE players", reason: "table name is not a plain identifier" }],
+            total_rows: 3,
+        });
+        expect(exported.path).toMatch(/game-\d{8}T\d{6}Z$/);
+        expect(JSON.parse(readFileSync(join(exported.path, "manifest.json"), "utf8")).skipped_tables).toEqual(exported.skipped_tables);
+        expect(outside.content[0].text).toContain("snapshot_path must be inside the export directory");
+        expect(existsSync(join(exported.path, "schema.json"))).toBe(true);
+        expect(inserts).toEqual([
+            "INSERT INTO players (id, owner, name) VALUES (1, 0xc200, 'ada')",
+            "INSERT INTO players (id, owner, name) VALUES (2, 0xc201, 'o''brien')",
+        ]);
+        expect(reducerCalls).toEqual([["game-restore", "insert_position", [1, [1.5, 2]]]]);
+        expect(imported).toMatchObject({
+            database: "game-restore",
+            source_database: "game",
+            inserted: 2,
+            conflicts: 1,
+            failed: 0,
+            tables: [
+                { table: "players", method: "sql", rows: 2, inserted: 1, conflicts: 1, errors: [{ row: 1, conflict: true }] },
+                { table: "positions", method: "reducer", reducer: "insert_position", rows: 1, inserted: 1 },
+            ],
+        });
+        expect(notifications).toEqual([
+            { method: "notifications/progress", params: { progressToken: "restore", progress: 1, total: 2, message: "players: 1/2 rows" } },
+            { method: "notifications/progress", params: { progressToken: "restore", progress: 2, total: 2, message: "positions: 1/1 rows" } },
+        ]);
+    });
+
+    it("refuses to export integers that would be rounded", async () => {
+        const exportDir = mkdtempSync(join(tmpdir(), "stdb-export-"));
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({
+                    success: true,
+                    data: {
+                        tables: [{ name: "accounts", product_type_ref: 0 }],
+                        reducers: [],
+                        typespace: { types: [{ Product: { elements: [{ name: { some: "balance" }, algebraic_type: { U64: {} } }] } }] },
+                        types: [{ name: { scope: [], name: "Account" }, ty: 0, custom_ordering: false }],
+                    },
+                }),
+                runSql: async () => ({ success: true, data: [{ schema: { elements: [{ name: { some: "balance" } }] }, rows: [[2 ** 63]] }] }),
+            }),
+            defaultDatabase: "bank",
+            host: "",
+            exportDir,
+        });
+
+        const response = await handlers.callTool({ params: { name: "export_database", arguments: { out_dir: "." } } });
+
+        expect(response.isError).toBe(true);
+        expect(response.content[0].text).toContain("too large to export without rounding: accounts.balance: U64");
+        expect(readdirSync(exportDir)).toEqual([]);
+    });
+
+    it("seeds a database from a fixture with saved variables and a per-step report", async () => {
+        const element = (name: string, algebraic_type: unknown) => ({ name: { some: name }, algebraic_type });
+        const calls: unknown[][] = [];
+        const queries: string[] = [];
+        const exportDir = mkdtempSync(join(tmpdir(), "stdb-seed-"));
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({
+                    success: true,
+                    data: {
+                        tables: [],
+                        typespace: { types: [] },
+                        types: [],
+                        reducers: [
+                            { name: "create_player", lifecycle: {}, params: { elements: [element("name", { String: {} })] } },
+                            { name: "give_item", lifecycle: {}, params: { elements: [element("owner", { String: {} }), element("item", { U32: {} })] } },
+                        ],
+                    },
+                }),
+                runSql: async (_database, query) => {
+                    queries.push(query);
+                    return { success: true, data: [{ columns: ["id"], rows: [{ id: "0xc200" }], total_duration_micros: 1 }] };
+                },
+                callReducer: async (...args) => {
+                    calls.push(args);
+                    return args[2][1] === 99 ? { success: false, error: "HTTP 530: no such item" } : { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "game",
+            host: "",
+            exportDir,
+        });
+        const fixturePath = join(exportDir, "world.yaml");
+        writeFileSync(
+            fixturePath,
+            [
+                "steps:",
+                "  - reducer: create_player",
+                "    args: { name: '${player}' }",
+                "  - query: SELECT id FROM players WHERE name = ${player}",
+                "    save: { owner: id }",
+                "  - reducer: give_item",
+                "    table: inventory",
+                "    rows:",
+                "      - ['${owner}', 1]",
+                "      - { owner: '${owner}', item: 99 }",
+                "  - reducer: create_player",
+                "    args: [bob]",
+            ].join("\n")
+        );
+
+        const report = JSON.parse(
+            (
+                await handlers.callTool({
+                    params: { name: "seed_database", arguments: { fixture_path: "world.yaml", variables: { player: "o'neil" }, stop_on_error: true } },
+                })
+            ).content[0].text
+        );
+        const outside = await handlers.callTool({ params: { name: "seed_database", arguments: { fixture_path: "../world.yaml" } } });
+
+        expect(outside.content[0].text).toContain("fixture_path must be inside the export directory");
+        expect(queries).toEqual(["SELECT id FROM players WHERE name = 'o''neil'"]);
+        expect(calls).toEqual([
+            ["game", "create_player", ["o'neil"]],
+            ["game", "give_item", ["0xc200", 1]],
+            ["game", "give_item", ["0xc200", 99]],
+        ]);
+        expect(report).toEqual({
+            database: "game",
+            passed: 2,
+            failed: 1,
+            not_run: 1,
+            steps: [
+                { step: 1, name: "create_player", status: "passed" },
+                { step: 2, name: "SELECT id FROM players WHERE name = ${player}", status: "passed", saved: { owner: "0xc200" } },
+                {
+                    step: 3,
+                    name: "give_item (2 row(s) of inventory)",
+                    status: "failed",
+                    calls: 2,
+                    errors: [{ row: 1, error: "HTTP 530: no such item" }],
+                },
+            ],
+        });
+    });
+
+    it("quotes variables in seed queries and checks the queries against the policy", async () => {
+        const queries: string[] = [];
+        const exportDir = mkdtempSync(join(tmpdir(), "stdb-seed-"));
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async (_database, query) => {
+                    queries.push(query);
+                    return { success: true, data: [] };
+                },
+            }),
+            defaultDatabase: "game",
+            host: "",
+            policy: { blockMutatingSql: true },
+            exportDir,
+        });
+        writeFileSync(
+            join(exportDir, "world.json"),
+            JSON.stringify({
+                variables: { q: "x'; DELETE FROM players; --", name: "ada" },
+                steps: [{ query: "SELECT * FROM players WHERE name = ${q}" }, { query: "DELETE FROM players WHERE name = ${name}" }],
+            })
+        );
+
+        const report = JSON.parse(
+            (await handlers.callTool({ params: { name: "seed_database", arguments: { fixture_path: "world.json" } } })).content[0].text
+        );
+
+        expect(queries).toEqual(["SELECT * FROM players WHERE name = 'x''; DELETE FROM players; --'"]);
+        expect(report.steps).toEqual([
+            { step: 1, name: "SELECT * FROM players WHERE name = ${q}", status: "passed" },
+            { step: 2, name: "DELETE FROM players WHERE name = ${name}", status: "failed", error: "Blocked by policy: Mutating SQL statements are not allowed" },
+        ]);
+    });
+
+    it("runs reducer batches in order or concurrently and tabulates each call", async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({
+                    success: true,
+                    data: {
+                        tables: [],
+                        typespace: { types: [] },
+                        types: [],
+                        reducers: [{ name: "spawn", lifecycle: {}, params: { elements: [{ name: { some: "id" }, algebraic_type: { U32: {} } }] } }],
+                    },
+                }),
+                callReducer: async (_database, _reducer, args) => {
+                    inFlight++;
+                    maxInFlight = Math.max(maxInFlight, inFlight);
+                    await new Promise((resolve) => setTimeout(resolve, 5));
+                    inFlight--;
+                    return args[0] === 2 ? { success: false, error: 'HTTP 530: "id 2 is taken"' } : { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "game",
+            host: "",
+        });
+
+        const sequential = await handlers.callTool({
+            params: {
+                name: "call_reducers_batch",
+                arguments: {
+                    calls: [{ reducer: "spawn", args: [1] }, { reducer: "spawn", args: { id: 2 } }, { reducer: "spawn", args: [3] }],
+                    stop_on_failure: true,
+                },
+            },
+        });
+        const concurrent = JSON.parse(
+            (
+                await handlers.callTool({
+                    params: {
+                        name: "call_reducers_batch",
+                        arguments: {
+                            calls: [{ reducer: "spawn", args: [4] }, { reducer: "spawn", args: [5] }, { reducer: "spawn", args: [6] }, { reducer: "nope" }],
+                            concurrency: 3,
+                            format: "json",
+                        },
+                    },
+                })
+            ).content[0].text
+        );
+
+        const lines = sequential.content[0].text.split("\n");
+        expect(lines[0]).toBe("| # | reducer | status | http | ms | error |");
+        expect(lines[2]).toMatch(/^\| 1 \| spawn \| ok \| 200 \| \d+ \|  \|$/);
+        expect(lines[3]).toMatch(/^\| 2 \| spawn \| failed \| 530 \| \d+ \| id 2 is taken \|$/);
+        expect(lines[4]).toBe("| 3 | spawn | skipped |  |  |  |");
+        expect(lines[6]).toMatch(/^_1 ok, 1 failed, 1 skipped in \d+ ms \(concurrency 1\)_$/);
+        expect(maxInFlight).toBe(3);
+        expect(concurrent).toMatchObject({ database: "game", ok: 3, failed: 1, skipped: 0 });
+        expect(concurrent.calls[3]).toEqual({ "#": 4, reducer: "nope", status: "failed", http: null, ms: null, error: 'Reducer "nope" not found' });
+    });
+
     it("runs publish_database through the CLI wrapper", async () => {
-        let capturedArgs: string[] = [];
+        const commands: string[][] = [];
         let capturedCwd = "";
         const handlers = createHandlers({
-            dbClient: createStubClient(),
+            dbClient: createStubClient({ getRawSchema: async () => ({ success: false, error: "HTTP 404: database not found" }) }),
             defaultDatabase: "db",
             host: "http://localhost:3000",
             publishCommandRunner: async ({ args, cwd }) => {
-                capturedArgs = args;
+                commands.push(args);
                 capturedCwd = cwd ?? "";
-                return { stdout: "published", stderr: "" };
+                return { stdout: args[0] === "publish" ? "published" : "", stderr: "" };
             },
+            moduleSchemaReader: async () => ({ tables: [], reducers: [], typespace: { types: [] }, types: [] }),
         });
 
+        const publishArgs = {
+            database: "my-db",
+            project_path: "C:/Projects/my-db",
+            clear_data: true,
+        };
+        const preview = await handlers.callTool({ params: { name: "publish_database", arguments: publishArgs } });
+        const confirmToken = JSON.parse(preview.content[0].text).confirm_token;
+
+        expect(commands).toEqual([]);
+
+        const dryRun = JSON.parse(
+            (
+                await handlers.callTool({
+                    params: { name: "publish_database", arguments: { ...publishArgs, confirm_token: confirmToken, dry_run: true } },
+                })
+            ).content[0].text
+        );
         const response = await handlers.callTool({
-            params: {
-                name: "publish_database",
-                arguments: {
-                    database: "my-db",
-                    project_path: "C:/Projects/my-db",
-                    clear_data: true,
-                },
-            },
+            params: { name: "publish_database", arguments: { ...publishArgs, confirm_token: confirmToken } },
         });
 
+        expect(dryRun).toMatchObject({ deployed: false, data_cleared: true });
         expect(response.content[0].text).toContain("published");
-        expect(capturedArgs).toEqual([
+        expect(commands.at(-1)).toEqual([
             "publish",
             "my-db",
             "--project-path",
@@ -104,6 +596,715 @@ describe("createHandlers", () => {
             "http://localhost:3000",
             "--delete-data",
         ]);
+        expect(commands.filter((args) => args[0] === "publish")).toHaveLength(1);
         expect(capturedCwd).toBe("C:/Projects/my-db");
     });
+
+    it("generates bindings and reports the files that changed", async () => {
+        const projectPath = mkdtempSync(join(tmpdir(), "stdb-bindings-"));
+        mkdirSync(join(projectPath, "client"));
+        writeFileSync(join(projectPath, "client", "index.ts"), "old");
+        writeFileSync(join(projectPath, "client", "stale.ts"), "stale");
+        let capturedArgs: string[] = [];
+        let fail = false;
+        const handlers = createHandlers({
+            dbClient: createStubClient(),
+            defaultDatabase: "",
+            host: "",
+            publishCommandRunner: async ({ args }) => {
+                capturedArgs = args;
+                if (fail) {
+                    throw Object.assign(new Error("Command failed"), {
+                        stderr: "error[E0308]: mismatched types\n --> src/lib.rs:4:12\nerror: aborting due to 1 previous error",
+                    });
+                }
+                writeFileSync(join(projectPath, "client", "index.ts"), "new");
+                writeFileSync(join(projectPath, "client", "player_type.ts"), "type");
+                return { stdout: "", stderr: "" };
+            },
+        });
+
+        const result = JSON.parse(
+            (
+                await handlers.callTool({
+                    params: { name: "generate_bindings", arguments: { language: "TypeScript", project_path: projectPath, out_dir: "client" } },
+                })
+            ).content[0].text
+        );
+        fail = true;
+        const failed = await handlers.callTool({
+            params: { name: "generate_bindings", arguments: { language: "rust", project_path: projectPath, out_dir: "client" } },
+        });
+        const unknown = await handlers.callTool({
+            params: { name: "generate_bindings", arguments: { language: "go", project_path: projectPath, out_dir: "client" } },
+        });
+
+        expect(capturedArgs.slice(0, 3)).toEqual(["generate", "--lang", "rust"]);
+        expect(result).toMatchObject({
+            language: "typescript",
+            files: ["index.ts", "player_type.ts"],
+            created: ["player_type.ts"],
+            updated: ["index.ts"],
+            deleted: [],
+            unchanged: 1,
+        });
+        expect(failed.isError).toBe(true);
+        expect(failed.content[0].text).toBe("Error: Generating bindings failed.\n- src/lib.rs:4:12: error[E0308]: mismatched types");
+        expect(unknown.content[0].text).toContain('Unknown language "go"');
+    });
+
+    it("builds modules into structured diagnostics and scaffolds new ones", async () => {
+        const projectPath = join(mkdtempSync(join(tmpdir(), "stdb-init-")), "game");
+        const commands: string[][] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient(),
+            defaultDatabase: "",
+            host: "",
+            publishCommandRunner: async ({ args }) => {
+                commands.push(args);
+                if (args[0] === "init") {
+                    mkdirSync(join(projectPath, "src"), { recursive: true });
+                    writeFileSync(join(projectPath, "Cargo.toml"), "");
+                    writeFileSync(join(projectPath, "src", "lib.rs"), "");
+                    return { stdout: "Project initialized", stderr: "" };
+                }
+                throw Object.assign(new Error("Command failed"), {
+                    stderr: "warning: unused import: `Table`\n --> src/lib.rs:1:5\nerror[E0425]: cannot find value `x` in this scope\n --> src/lib.rs:8:13",
+                });
+            },
+        });
+
+        const init = JSON.parse(
+            (await handlers.callTool({ params: { name: "init_module", arguments: { language: "rust", project_path: projectPath } } })).content[0].text
+        );
+        const build = await handlers.callTool({ params: { name: "build_module", arguments: { project_path: projectPath, debug: true } } });
+
+        expect(init).toEqual({ language: "rust", project_path: projectPath, files: ["Cargo.toml", "src/lib.rs"] });
+        expect(commands).toEqual([
+            ["init", "--lang", "rust", projectPath],
+            ["build", "--project-path", projectPath, "--debug"],
+        ]);
+        expect(build.isError).toBe(true);
+        expect(JSON.parse(build.content[0].text.replace(/^Error: /, ""))).toEqual({
+            project_path: projectPath,
+            built: false,
+            errors: 1,
+            warnings: 1,
+            diagnostics: [
+                { severity: "warning", message: "unused import: `Table`", file: "src/lib.rs", line: 1, column: 5 },
+                { severity: "error", code: "E0425", message: "cannot find value `x` in this scope", file: "src/lib.rs", line: 8, column: 13 },
+            ],
+        });
+    });
+
+    it("plans publish_database from a local build and refuses publishes migration cannot apply", async () => {
+        const rawSchema = (columns: string[]) => ({
+            tables: [{ name: "users", product_type_ref: 0 }],
+            reducers: [],
+            typespace: { types: [{ Product: { elements: columns.map((name) => ({ name: { some: name }, algebraic_type: { U64: {} } })) } }] },
+            types: [{ name: { scope: [], name: "User" }, ty: 0, custom_ordering: false }],
+        });
+        const commands: string[][] = [];
+        let builtColumns = ["id", "email"];
+        const handlers = createHandlers({
+            dbClient: createStubClient({ getRawSchema: async () => ({ success: true, data: rawSchema(["id"]) }) }),
+            defaultDatabase: "my-db",
+            host: "http://localhost:3000",
+            publishCommandRunner: async ({ args }) => {
+                commands.push(args);
+                return { stdout: args[0] === "publish" ? "published" : "", stderr: "" };
+            },
+            moduleSchemaReader: async (projectPath) => {
+                expect(projectPath).toBe("/module");
+                return rawSchema(builtColumns);
+            },
+        });
+
+        const plan = JSON.parse(
+            (await handlers.callTool({ params: { name: "publish_database", arguments: { project_path: "/module", dry_run: true } } })).content[0].text
+        );
+        const refused = await handlers.callTool({ params: { name: "publish_database", arguments: { project_path: "/module" } } });
+        const forced = await handlers.callTool({
+            params: { name: "publish_database", arguments: { project_path: "/module", allow_breaking: true } },
+        });
+        builtColumns = ["id"];
+        const unchanged = await handlers.callTool({ params: { name: "publish_database", arguments: { project_path: "/module" } } });
+
+        expect(plan).toMatchObject({
+            deployed: true,
+            breaking: true,
+            migration: { automatic: false, blockers: ["column users.email added (clients decode rows by position and cannot read the new row layout)"] },
+        });
+        expect(refused.isError).toBe(true);
+        expect(refused.content[0].text).toContain("Publish refused. Automatic migration cannot apply these changes: column users.email added");
+        expect(forced.content[0].text).toContain("published");
+        expect(unchanged.content[0].text).toContain("published");
+        expect(commands.map((args) => args[0])).toEqual(["build", "build", "publish", "build", "publish"]);
+        expect(commands[0]).toEqual(["build", "--project-path", "/module"]);
+        expect(commands[2]).toContain("--break-clients");
+        expect(commands[4]).not.toContain("--break-clients");
+    });
+
+    it("fails a dry run on build errors and unreadable schemas", async () => {
+        let buildError: Error | null = Object.assign(new Error("Command failed"), { stderr: "error: could not find Cargo.toml" });
+        let schemaError = "HTTP 500: internal error";
+        const deps = {
+            dbClient: createStubClient({ getRawSchema: async () => ({ success: false, error: schemaError }) }),
+            defaultDatabase: "my-db",
+            host: "",
+            publishCommandRunner: async () => {
+                if (buildError) throw buildError;
+                return { stdout: "", stderr: "" };
+            },
+            moduleSchemaReader: async () => ({ tables: [], reducers: [], typespace: { types: [] }, types: [] }),
+        };
+        const dryRun = { params: { name: "publish_database", arguments: { project_path: "/module", dry_run: true } } };
+
+        const buildFailed = await createHandlers(deps).callTool(dryRun);
+        buildError = null;
+        const unreadable = await createHandlers({
+            ...deps,
+            moduleSchemaReader: async () => {
+                throw new Error("No built module found in /module");
+            },
+        }).callTool(dryRun);
+        const schemaFailed = await createHandlers(deps).callTool(dryRun);
+        schemaError = "HTTP 404: database not found";
+        const notDeployed = JSON.parse((await createHandlers(deps).callTool(dryRun)).content[0].text);
+
+        expect(buildFailed.content[0].text).toContain("Build failed. error: could not find Cargo.toml");
+        expect(unreadable.content[0].text).toBe("Error: Failed to read the built module's schema: No built module found in /module");
+        expect(schemaFailed.isError).toBe(true);
+        expect(schemaFailed.content[0].text).toContain("Failed to read the deployed schema: HTTP 500");
+        expect(notDeployed.deployed).toBe(false);
+    });
+
+    it("lists database, log and table resources for known databases", async () => {
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                listDatabases: async () => ({ success: true, data: { identities: ["db", "other"] } }),
+            }),
+            defaultDatabase: "db",
+            host: "http://localhost:3000",
+            identity: "0xabc",
+        });
+
+        const result = await handlers.listResources();
+        const uris = result.resources.map((resource) => resource.uri);
+        const templates = await handlers.listResourceTemplates();
+
+        expect(uris).toEqual([
+            "spacetimedb://db/schema",
+            "spacetimedb://db/logs",
+            "spacetimedb://db/tables/users",
+            "spacetimedb://other/schema",
+            "spacetimedb://other/logs",
+            "spacetimedb://other/tables/users",
+        ]);
+        expect(templates.resourceTemplates.map((template) => template.uriTemplate)).toContain(
+            "spacetimedb://{database}/tables/{table}"
+        );
+    });
+
+    it("reads table resources through SQL", async () => {
+        let capturedQuery = "";
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async (_database, query) => {
+                    capturedQuery = query;
+                    return { success: true, data: [{ id: 1 }] };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "http://localhost:3000",
+        });
+
+        const response = await handlers.readResource({ params: { uri: "spacetimedb://db/tables/users" } });
+
+        expect(capturedQuery).toBe("SELECT * FROM users");
+        expect(response.contents[0].mimeType).toBe("application/json");
+        expect(JSON.parse(response.contents[0].text)).toEqual([{ id: 1 }]);
+    });
+
+    it("rejects table resources that are not in the schema", async () => {
+        const queries: string[] = [];
+        const watched: unknown[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async (_database, query) => {
+                    queries.push(query);
+                    return { success: true, data: [] };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+            resourceWatcher: {
+                watch: async (target) => {
+                    watched.push(target);
+                    return { success: true };
+                },
+                unwatch: () => undefined,
+            },
+        });
+        const uri = `spacetimedb://db/tables/${encodeURIComponent("users; DELETE FROM users")}`;
+
+        await expect(handlers.readResource({ params: { uri } })).rejects.toThrow('Unknown table "users; DELETE FROM users"');
+        await expect(handlers.subscribeResource({ params: { uri } })).rejects.toThrow("Unknown table");
+        await expect(handlers.readResource({ params: { uri: "spacetimedb://db/tables/accounts" } })).rejects.toThrow("Unknown table");
+        expect(queries).toEqual([]);
+        expect(watched).toEqual([]);
+    });
+
+    it("exposes subscription tools only when a subscription manager is configured", async () => {
+        let polledId = "";
+        const withoutSubscriptions = createHandlers({ dbClient: createStubClient(), defaultDatabase: "db", host: "" });
+        const handlers = createHandlers({
+            dbClient: createStubClient(),
+            defaultDatabase: "db",
+            host: "",
+            subscriptions: {
+                subscribe: async () => ({ success: true, data: { subscription_id: "sub-1" } }),
+                poll: (id) => {
+                    polledId = id;
+                    return { success: true, data: { events: [] } };
+                },
+                unsubscribe: () => ({ success: true, data: { status: "closed" } }),
+            },
+        });
+
+        const withoutNames = (await withoutSubscriptions.listTools()).tools.map((tool) => tool.name);
+        const names = (await handlers.listTools()).tools.map((tool) => tool.name);
+        const subscribed = await handlers.callTool({
+            params: { name: "subscribe", arguments: { queries: ["SELECT * FROM users"] } },
+        });
+        await handlers.callTool({ params: { name: "poll_subscription", arguments: { subscription_id: "sub-1" } } });
+
+        expect(withoutNames).not.toContain("subscribe");
+        expect(names).toEqual(expect.arrayContaining(["subscribe", "poll_subscription", "unsubscribe"]));
+        expect(subscribed.content[0].text).toContain("sub-1");
+        expect(polledId).toBe("sub-1");
+    });
+
+    it("routes resource subscriptions to the watcher", async () => {
+        const watched: unknown[] = [];
+        const unwatched: string[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient(),
+            defaultDatabase: "db",
+            host: "",
+            resourceWatcher: {
+                watch: async (target) => {
+                    watched.push(target);
+                    return { success: true };
+                },
+                unwatch: (uri) => {
+                    unwatched.push(uri);
+                },
+            },
+        });
+
+        await handlers.subscribeResource({ params: { uri: "spacetimedb://db/logs" } });
+        await handlers.subscribeResource({ params: { uri: "spacetimedb://db/tables/users" } });
+        await handlers.unsubscribeResource({ params: { uri: "spacetimedb://db/logs" } });
+
+        expect(watched).toEqual([
+            { uri: "spacetimedb://db/logs", database: "db", kind: "logs" },
+            { uri: "spacetimedb://db/tables/users", database: "db", kind: "table", table: "users" },
+        ]);
+        expect(unwatched).toEqual(["spacetimedb://db/logs"]);
+        await expect(
+            handlers.subscribeResource({ params: { uri: "spacetimedb://db/schema" } })
+        ).rejects.toThrow("does not support subscriptions");
+    });
+
+    it("passes the tail_logs cursor through to the client", async () => {
+        let captured: unknown[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                tailLogs: async (...args) => {
+                    captured = args;
+                    return { success: true, data: { cursor: "2:1", count: 1, truncated: false, logs: "line" } };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+        });
+
+        const response = await handlers.callTool({
+            params: { name: "tail_logs", arguments: { cursor: "1:1" } },
+        });
+
+        expect(captured).toEqual(["db", "1:1", 100]);
+        expect(JSON.parse(response.content[0].text).cursor).toBe("2:1");
+    });
+
+    it("hides mutating tools and rejects calls that break the policy", async () => {
+        let sqlCalled = false;
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async () => {
+                    sqlCalled = true;
+                    return { success: true, data: [] };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+            policy: { readOnly: true, deniedDatabases: ["prod"] },
+        });
+
+        const names = (await handlers.listTools()).tools.map((tool) => tool.name);
+        const deleteResponse = await handlers.callTool({ params: { name: "delete_database", arguments: {} } });
+        const sqlResponse = await handlers.callTool({
+            params: { name: "sql_query", arguments: { query: "UPDATE users SET name = 'x'" } },
+        });
+        const deniedResponse = await handlers.callTool({
+            params: { name: "get_schema", arguments: { database: "prod" } },
+        });
+        const initResponse = await handlers.callTool({
+            params: { name: "init_module", arguments: { language: "rust", project_path: "/tmp/module" } },
+        });
+
+        expect(names).not.toContain("delete_database");
+        expect(names).not.toContain("call_reducer");
+        expect(names).not.toContain("build_module");
+        expect(names).toContain("list_servers");
+        expect(initResponse.content[0].text).toContain('Tool "init_module" is disabled in read-only mode');
+        expect(names).toContain("sql_query");
+        expect(deleteResponse.isError).toBe(true);
+        expect(deleteResponse.content[0].text).toContain("read-only");
+        expect(sqlResponse.content[0].text).toContain("Mutating SQL");
+        expect(sqlCalled).toBe(false);
+        expect(deniedResponse.content[0].text).toContain('Database "prod" is not allowed');
+    });
+
+    it("applies the database policy to resources and resource subscriptions", async () => {
+        const watched: unknown[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                listDatabases: async () => ({ success: true, data: { identities: ["db", "prod"] } }),
+            }),
+            defaultDatabase: "db",
+            host: "",
+            identity: "0xabc",
+            policy: { deniedDatabases: ["prod"] },
+            resourceWatcher: {
+                watch: async (target) => {
+                    watched.push(target);
+                    return { success: true };
+                },
+                unwatch: () => undefined,
+            },
+        });
+
+        const uris = (await handlers.listResources()).resources.map((resource) => resource.uri);
+
+        expect(uris.some((uri) => uri.startsWith("spacetimedb://prod/"))).toBe(false);
+        expect(uris).toContain("spacetimedb://db/schema");
+        await expect(handlers.readResource({ params: { uri: "spacetimedb://prod/tables/users" } })).rejects.toThrow(
+            'Database "prod" is not allowed'
+        );
+        await expect(handlers.subscribeResource({ params: { uri: "spacetimedb://prod/logs" } })).rejects.toThrow(
+            'Database "prod" is not allowed'
+        );
+        expect(watched).toEqual([]);
+    });
+
+    it("previews delete_database and only deletes with a valid confirm_token", async () => {
+        let now = 0;
+        const deleted: string[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getDatabaseIdentity: async () => ({ success: true, data: "0xabc" }),
+                runSql: async () => ({ success: true, data: [{ schema: { elements: [] }, rows: [[42]] }] }),
+                deleteDatabase: async (database) => {
+                    deleted.push(database);
+                    return { success: true, data: { ok: true } };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+            confirmations: new ConfirmationStore({ ttlMs: 1000, now: () => now }),
+        });
+
+        const preview = await handlers.callTool({ params: { name: "delete_database", arguments: {} } });
+        const previewData = JSON.parse(preview.content[0].text);
+
+        expect(deleted).toEqual([]);
+        expect(previewData).toMatchObject({
+            identity: "0xabc",
+            tables: [{ name: "users", rows: 42 }],
+            aliases: ["alias"],
+        });
+
+        const wrongDatabase = await handlers.callTool({
+            params: { name: "delete_database", arguments: { database: "other", confirm_token: previewData.confirm_token } },
+        });
+        expect(wrongDatabase.isError).toBe(true);
+
+        now = 2000;
+        const expired = await handlers.callTool({
+            params: { name: "delete_database", arguments: { confirm_token: previewData.confirm_token } },
+        });
+        expect(expired.content[0].text).toContain("Invalid or expired");
+
+        const secondPreview = JSON.parse(
+            (await handlers.callTool({ params: { name: "delete_database", arguments: {} } })).content[0].text
+        );
+        await handlers.callTool({
+            params: { name: "delete_database", arguments: { confirm_token: secondPreview.confirm_token } },
+        });
+        const reused = await handlers.callTool({
+            params: { name: "delete_database", arguments: { confirm_token: secondPreview.confirm_token } },
+        });
+
+        expect(deleted).toEqual(["db"]);
+        expect(reused.isError).toBe(true);
+    });
+
+    it("rejects reducer calls whose arguments do not match the schema", async () => {
+        let called = false;
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({
+                    success: true,
+                    data: {
+                        tables: [],
+                        typespace: { types: [] },
+                        types: [],
+                        reducers: [
+                            {
+                                name: "set_score",
+                                lifecycle: {},
+                                params: { elements: [{ name: { some: "score" }, algebraic_type: { U8: {} } }] },
+                            },
+                        ],
+                    },
+                }),
+                callReducer: async () => {
+                    called = true;
+                    return { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+        });
+
+        const invalid = await handlers.callTool({
+            params: { name: "call_reducer", arguments: { reducer: "set_score", args: [300] } },
+        });
+        const unknown = await handlers.callTool({
+            params: { name: "call_reducer", arguments: { reducer: "reset", args: [] } },
+        });
+
+        expect(invalid.isError).toBe(true);
+        expect(invalid.content[0].text).toContain("args[0] (score): 300 is out of range for U8");
+        expect(unknown.content[0].text).toContain('Reducer "reset" not found');
+        expect(called).toBe(false);
+    });
+
+    it("refetches a cached schema before rejecting an unknown reducer or table", async () => {
+        const reducer = (name: string) => ({ name, lifecycle: {}, params: { elements: [] } });
+        const table = (name: string) => ({ name, columns: [{ name: "id", type: "U64", fullType: "U64" }] });
+        const refreshes: string[] = [];
+        const calls: string[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async (_database, refresh) => {
+                    if (refresh) refreshes.push("schema");
+                    const reducers = refresh ? [reducer("add_user"), reducer("reset")] : [reducer("add_user")];
+                    return { success: true, data: { tables: [], typespace: { types: [] }, types: [], reducers } };
+                },
+                getTables: async (_database, refresh) => {
+                    if (refresh) refreshes.push("tables");
+                    return { success: true, data: refresh ? [table("users"), table("scores")] : [table("users")] };
+                },
+                callReducer: async (_database, name) => {
+                    calls.push(name);
+                    return { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+        });
+
+        const added = await handlers.callTool({ params: { name: "call_reducer", arguments: { reducer: "reset", args: [] } } });
+        const query = await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT * FROM scores" } } });
+        const missing = await handlers.callTool({ params: { name: "call_reducer", arguments: { reducer: "drop_all", args: [] } } });
+
+        expect(added.isError).toBeUndefined();
+        expect(query.isError).toBeUndefined();
+        expect(missing.content[0].text).toContain('Reducer "drop_all" not found. Available reducers: add_user, reset');
+        expect(calls).toEqual(["reset"]);
+        expect(refreshes).toEqual(["schema", "tables", "schema"]);
+    });
+
+    it("passes the schema format through and rejects unknown formats", async () => {
+        const formats: unknown[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getSchema: async (_database, format) => {
+                    formats.push(format);
+                    return { success: true, data: "export interface UsersRow {}" };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+        });
+
+        const response = await handlers.callTool({
+            params: { name: "get_schema", arguments: { format: "typescript" } },
+        });
+        const invalid = await handlers.callTool({
+            params: { name: "get_schema", arguments: { format: "yaml" } },
+        });
+
+        expect(formats).toEqual(["typescript"]);
+        expect(response.content[0].text).toContain("UsersRow");
+        expect(invalid.isError).toBe(true);
+        expect(invalid.content[0].text).toContain("Unknown format");
+    });
+
+    it("generates one tool per non-lifecycle reducer and maps named arguments to positions", async () => {
+        let called: unknown[] = [];
+        let toolsChanged = 0;
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                getRawSchema: async () => ({
+                    success: true,
+                    data: {
+                        tables: [],
+                        typespace: { types: [] },
+                        types: [],
+                        reducers: [
+                            { name: "init", lifecycle: { some: { Init: {} } }, params: { elements: [] } },
+                            {
+                                name: "move_player",
+                                lifecycle: {},
+                                params: {
+                                    elements: [
+                                        { name: { some: "player_id" }, algebraic_type: { U32: {} } },
+                                        { name: { some: "dx" }, algebraic_type: { F32: {} } },
+                                    ],
+                                },
+                            },
+                        ],
+                    },
+                }),
+                callReducer: async (...args) => {
+                    called = args;
+                    return { success: true, data: {} };
+                },
+            }),
+            defaultDatabase: "db",
+            host: "",
+            reducerTools: true,
+            onToolsChanged: () => {
+                toolsChanged++;
+            },
+            publishCommandRunner: async () => ({ stdout: "published", stderr: "" }),
+        });
+
+        const tools = (await handlers.listTools()).tools;
+        const moveTool = tools.find((tool) => tool.name === "reducer__move_player");
+        await handlers.callTool({
+            params: { name: "reducer__move_player", arguments: { dx: 1.5, player_id: 7 } },
+        });
+        const invalid = await handlers.callTool({
+            params: { name: "reducer__move_player", arguments: { dx: 1.5 } },
+        });
+        await handlers.callTool({ params: { name: "publish_database", arguments: { project_path: "/module", allow_breaking: true } } });
+
+        expect(tools.some((tool) => tool.name === "reducer__init")).toBe(false);
+        expect(moveTool?.inputSchema.required).toEqual(["player_id", "dx"]);
+        expect(moveTool?.inputSchema.properties?.dx).toEqual({ type: "number" });
+        expect(called).toEqual(["db", "move_player", [7, 1.5]]);
+        expect(invalid.content[0].text).toContain("args[0] (player_id): expected U32");
+        expect(toolsChanged).toBe(1);
+    });
+
+    it("routes calls to the server profile named in the server argument", async () => {
+        const queried: string[] = [];
+        const handlers = createHandlers({
+            dbClient: createStubClient({
+                runSql: async (database) => {
+                    queried.push(`local:${database}`);
+                    return { success: true, data: [] };
+                },
+            }),
+            defaultDatabase: "game",
+            host: "http://localhost:3000",
+            serverName: "local",
+            servers: {
+                staging: {
+                    dbClient: createStubClient({
+                        testConnection: async () => ({ success: false, error: "connection refused" }),
+                        runSql: async (database) => {
+                            queried.push(`staging:${database}`);
+                            return { success: true, data: [] };
+                        },
+                    }),
+                    defaultDatabase: "game-staging",
+                    host: "https://staging.example.com",
+                },
+            },
+        });
+
+        const tools = await handlers.listTools();
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1" } } });
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1", server: "staging" } } });
+        const unknown = await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1", server: "prod" } } });
+        const servers = JSON.parse((await handlers.callTool({ params: { name: "list_servers" } })).content[0].text);
+
+        expect(tools.tools.find((tool) => tool.name === "sql_query")?.inputSchema.properties).toHaveProperty("server");
+        expect(queried).toEqual(["local:game", "staging:game-staging"]);
+        expect(unknown.content[0].text).toContain('Unknown server "prod". Configured servers: local, staging');
+        expect(servers).toEqual([
+            { name: "local", host: "http://localhost:3000", default_database: "game", default: true, connected: true },
+            {
+                name: "staging",
+                host: "https://staging.example.com",
+                default_database: "game-staging",
+                default: false,
+                connected: false,
+                error: "connection refused",
+            },
+        ]);
+    });
+
+    it("switches to new server profiles and announces the changed tool list", async () => {
+        const queried: string[] = [];
+        let toolsChanged = 0;
+        const stub = (name: string) =>
+            createStubClient({
+                runSql: async (database) => {
+                    queried.push(`${name}:${database}`);
+                    return { success: true, data: [] };
+                },
+            });
+        const handlers = createHandlers({
+            dbClient: stub("local"),
+            defaultDatabase: "game",
+            host: "http://localhost:3000",
+            serverName: "local",
+            onToolsChanged: () => {
+                toolsChanged++;
+            },
+        });
+
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1" } } });
+        handlers.setServers({
+            serverName: "maincloud",
+            defaultServer: { dbClient: stub("maincloud"), defaultDatabase: "game-live", host: "https://maincloud.spacetimedb.com" },
+            servers: { local: { dbClient: stub("local"), defaultDatabase: "", host: "http://localhost:3000" } },
+        });
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1" } } });
+        await handlers.callTool({ params: { name: "sql_query", arguments: { query: "SELECT 1", server: "local", database: "game" } } });
+        const tools = await handlers.listTools();
+
+        expect(queried).toEqual(["local:game", "maincloud:game-live", "local:game"]);
+        expect(toolsChanged).toBe(1);
+        expect(tools.tools.find((tool) => tool.name === "sql_query")?.inputSchema.properties?.server).toMatchObject({
+            description: "Server profile to use: maincloud, local. Defaults to: maincloud",
+        });
+    });
 });
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { lintSql } from "../src/sql-lint.js";
+import { ParsedTable } from "../src/types.js";
+
+const column = (name: string) => ({ name, type: "U64", fullType: "U64" });
+const tables: ParsedTable[] = [
+    { name: "players", columns: [column("id"), column("name"), column("team_id")] },
+    { name: "teams", columns: [column("id"), column("title")] },
+];
+
+describe("lintSql", () => {
+    it("accepts valid queries and classifies them", () => {
+        const result = lintSql(
+            "SELECT p.name, t.title FROM players p JOIN teams AS t ON p.team_id = t.id WHERE p.id > 3 LIMIT 5; " +
+                "UPDATE players SET name = 'x' WHERE id = 1; SELECT COUNT(*) AS total FROM players",
+            tables
+        );
+
+        expect(result.valid).toBe(true);
+        expect(result.statements.map((statement) => [statement.kind, statement.tables])).toEqual([
+            ["read", ["players", "teams"]],
+            ["write", ["players"]],
+            ["read", ["players"]],
+        ]);
+        expect(result.statements.flatMap((statement) => statement.issues)).toEqual([]);
+    });
+
+    it("reads exponent literals as numbers", () => {
+        const result = lintSql("SELECT * FROM players WHERE id = 1e3 OR team_id < 2.5E-1 OR id > 7e+2", tables);
+
+        expect(result.valid).toBe(true);
+        expect(result.statements[0].issues).toEqual([]);
+    });
+
+    it("leaves comment markers inside string literals alone", () => {
+        const result = lintSql("SELECT * FROM players WHERE name = 'a--b' -- trailing\n AND title = '/* x */'; /* note */ SELECT id FROM teams", [
+            { name: "players", columns: [column("id"), column("name"), column("title")] },
+            tables[1],
+        ]);
+
+        expect(result.valid).toBe(true);
+        expect(result.statements.map((statement) => statement.statement)).toEqual([
+            "SELECT * FROM players WHERE name = 'a--b' \n AND title = '/* x */'",
+            "SELECT id FROM teams",
+        ]);
+    });
+
+    it("reports unknown names with the closest valid name", () => {
+        const result = lintSql("SELECT nmae, p.team FROM player p WHERE Id = 1", tables);
+        const unknownTable = lintSql("SELECT nmae FROM players WHERE p.id = 1", tables);
+
+        expect(result.valid).toBe(false);
+        expect(result.statements[0].issues).toEqual([{ severity: "error", message: 'Unknown table "player"', suggestion: "players" }]);
+        expect(unknownTable.statements[0].issues).toEqual([
+            { severity: "error", message: 'Unknown column "nmae" in "players"', suggestion: "name" },
+            { severity: "error", message: 'Unknown table or alias "p"', suggestion: undefined },
+        ]);
+    });
+
+    it("flags SQL outside SpacetimeDB's dialect", () => {
+        const result = lintSql(
+            "SELECT DISTINCT name, MAX(id) FROM players LEFT JOIN teams ON players.team_id = teams.id ORDER BY name; DELETE FROM players",
+            tables
+        );
+        const messages = result.statements.flatMap((statement) => statement.issues.map((issue) => issue.message));
+
+        expect(messages).toEqual([
+            "LEFT JOIN is not supported; only inner joins are",
+            "ORDER BY is not supported",
+            "DISTINCT is not supported",
+            "Function MAX() is not supported; the only aggregate is COUNT(*)",
+            "DELETE without WHERE affects every row of the table",
+        ]);
+        expect(result.statements[1].kind).toBe("write");
+    });
+});
@@ -0,0 +1,117 @@
+import { EventEmitter } from "node:events";
+import { describe, expect, it } from "vitest";
+import { SubscriptionManager, SubscriptionSocket } from "../src/subscriptions.js";
+
+class FakeSocket extends EventEmitter implements SubscriptionSocket {
+    sent: string[] = [];
+    closed = false;
+
+    send(data: string): void {
+        this.sent.push(data);
+    }
+
+    close(): void {
+        this.closed = true;
+    }
+}
+
+const tableUpdate = (table: string, inserts: unknown[], deletes: unknown[] = []) => ({
+    table_id: 1,
+    table_name: table,
+    num_rows: inserts.length,
+    updates: [{ inserts: inserts.map((row) => JSON.stringify(row)), deletes: deletes.map((row) => JSON.stringify(row)) }],
+});
+
+describe("SubscriptionManager", () => {
+    it("buffers the initial snapshot and later transaction updates", async () => {
+        const socket = new FakeSocket();
+        let openedUrl = "";
+        let openedHeaders: Record<string, string> = {};
+        const manager = new SubscriptionManager({
+            host: "http://localhost:3000",
+            token: "token",
+            createSocket: (url, _protocol, headers) => {
+                openedUrl = url;
+                openedHeaders = headers;
+                return socket;
+            },
+        });
+
+        const pending = manager.subscribe("game", ["SELECT * FROM players"]);
+        socket.emit("open");
+        socket.emit(
+            "message",
+            JSON.stringify({
+                InitialSubscription: {
+                    database_update: { tables: [tableUpdate("players", [[1, "alpha"], [2, "beta"]])] },
+                    request_id: 1,
+                },
+            })
+        );
+        const subscribed = await pending;
+
+        socket.emit(
+            "message",
+            JSON.stringify({
+                TransactionUpdate: {
+                    status: { Committed: { tables: [tableUpdate("players", [[3, "gamma"]], [[1, "alpha"]])] } },
+                    reducer_call: { reducer_name: "move_player" },
+                },
+            })
+        );
+
+        expect(openedUrl).toBe("ws://localhost:3000/v1/database/game/subscribe");
+        expect(openedHeaders.Authorization).toBe("Bearer token");
+        expect(JSON.parse(socket.sent[0]).Subscribe.query_strings).toEqual(["SELECT * FROM players"]);
+        expect(subscribed.success).toBe(true);
+        expect(subscribed.data).toMatchObject({ subscription_id: "sub-1", initial_rows: { players: 2 } });
+
+        const firstPoll = manager.poll("sub-1");
+        const data = firstPoll.data as { events: { kind: string; row: unknown; reducer?: string }[] };
+        expect(data.events.map((event) => event.kind)).toEqual(["initial", "initial", "delete", "insert"]);
+        expect(data.events[3]).toMatchObject({ row: [3, "gamma"], reducer: "move_player" });
+
+        const secondPoll = manager.poll("sub-1");
+        expect((secondPoll.data as { events: unknown[] }).events).toEqual([]);
+
+        expect(manager.unsubscribe("sub-1").success).toBe(true);
+        expect(socket.closed).toBe(true);
+        expect(manager.poll("sub-1").success).toBe(false);
+    });
+
+    it("reports subscription errors and drops the oldest events when the buffer is full", async () => {
+        const failingSocket = new FakeSocket();
+        const bufferedSocket = new FakeSocket();
+        const sockets = [failingSocket, bufferedSocket];
+        const openedUrls: string[] = [];
+        const manager = new SubscriptionManager({
+            host: "https://example.com",
+            token: "",
+            maxBufferedEvents: 2,
+            createSocket: (url) => {
+                openedUrls.push(url);
+                return sockets.shift() as FakeSocket;
+            },
+        });
+
+        const failing = manager.subscribe("game/../other", ["SELECT * FROM missing"]);
+        failingSocket.emit("message", JSON.stringify({ SubscriptionError: { error: "no such table" } }));
+        const failure = await failing;
+        expect(openedUrls).toEqual(["wss://example.com/v1/database/game%2F..%2Fother/subscribe"]);
+
+        const buffered = manager.subscribe("game", ["SELECT * FROM players"]);
+        bufferedSocket.emit(
+            "message",
+            JSON.stringify({
+                InitialSubscription: { database_update: { tables: [tableUpdate("players", [[1], [2], [3]])] } },
+            })
+        );
+        await buffered;
+        const poll = manager.poll("sub-2");
+
+        expect(failure.success).toBe(false);
+        expect(failure.error).toContain("no such table");
+        expect(poll.data).toMatchObject({ dropped: 1, remaining: 0 });
+        expect((poll.data as { events: { row: unknown }[] }).events.map((event) => event.row)).toEqual([[2], [3]]);
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { validateReducerArgs } from "../src/validation.js";
+import { RawReducer, RawSchema } from "../src/types.js";
+
+const schema: RawSchema = {
+    tables: [],
+    reducers: [],
+    typespace: {
+        types: [
+            {
+                Product: {
+                    elements: [
+                        { name: { some: "x" }, algebraic_type: { F32: {} } },
+                        { name: { some: "y" }, algebraic_type: { F32: {} } },
+                    ],
+                },
+            },
+            {
+                Sum: {
+                    variants: [
+                        { name: { some: "Warrior" }, algebraic_type: { Product: { elements: [] } } },
+                        { name: { some: "Mage" }, algebraic_type: { U8: {} } },
+                    ],
+                },
+            },
+        ],
+    },
+    types: [
+        { name: { scope: [], name: "Vec2" }, ty: 0, custom_ordering: false },
+        { name: { scope: [], name: "Class" }, ty: 1, custom_ordering: false },
+    ],
+};
+
+const reducer: RawReducer = {
+    name: "spawn_player",
+    lifecycle: {},
+    params: {
+        elements: [
+            { name: { some: "id" }, algebraic_type: { U64: {} } },
+            { name: { some: "position" }, algebraic_type: { Ref: 0 } },
+            { name: { some: "class" }, algebraic_type: { Ref: 1 } },
+            { name: { some: "nickname" }, algebraic_type: { Option: { String: {} } } },
+            { name: { some: "tags" }, algebraic_type: { Array: { String: {} } } },
+            {
+                name: { some: "owner" },
+                algebraic_type: {
+                    Product: { elements: [{ name: { some: "__identity__" }, algebraic_type: { U256: {} } }] },
+                },
+            },
+        ],
+    },
+};
+
+describe("validateReducerArgs", () => {
+    it("accepts well-formed arguments", () => {
+        const errors = validateReducerArgs(schema, reducer, [
+            "18446744073709551615",
+            { x: 1.5, y: 2 },
+            { Mage: 3 },
+            { some: "neo" },
+            ["a", "b"],
+            "0xc200aa",
+        ]);
+
+        expect(errors).toEqual([]);
+    });
+
+    it("accepts positional values as SQL results return them", () => {
+        const errors = validateReducerArgs(schema, reducer, [7, [1.5, 2], { Warrior: [] }, { none: [] }, [], ["0xc200aa"]]);
+
+        expect(errors).toEqual([]);
+    });
+
+    it("reports arity mismatches with the expected signature", () => {
+        const errors = validateReducerArgs(schema, reducer, [1]);
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain("expected 6 argument(s)");
+        expect(errors[0]).toContain("position: Vec2");
+    });
+
+    it("points at the exact path of each invalid value", () => {
+        const errors = validateReducerArgs(schema, reducer, [
+            -1,
+            { x: "left", z: 0 },
+            { Rogue: [] },
+            "neo",
+            ["a", 7],
+            42,
+        ]);
+
+        expect(errors).toEqual([
+            "args[0] (id): -1 is out of range for U64 (0 to 18446744073709551615)",
+            "args[1] (position).z: unknown field for Vec2",
+            'args[1] (position).x: expected F32, got string "left"',
+            "args[1] (position).y: missing field of type F32",
+            'args[2] (class): unknown variant "Rogue" for Class; expected one of: Warrior, Mage',
+            'args[3] (nickname): expected Option<String> as {"some": value} or {"none": []}, got string "neo"',
+            "args[4] (tags)[1]: expected String, got number 7",
+        ]);
+    });
+
+    it("checks I256 arguments given as decimal strings", () => {
+        const balance: RawReducer = {
+            name: "set_balance",
+            lifecycle: {},
+            params: { elements: [{ name: { some: "amount" }, algebraic_type: { I256: {} } }] },
+        };
+
+        expect(validateReducerArgs(schema, balance, [`-${2n ** 255n}`])).toEqual([]);
+        expect(validateReducerArgs(schema, balance, [`${2n ** 255n}`])).toEqual([
+            `args[0] (amount): ${2n ** 255n} is out of range for I256 (-${2n ** 255n} to ${2n ** 255n - 1n})`,
+        ]);
+    });
+});